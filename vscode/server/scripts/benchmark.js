@@ -0,0 +1,88 @@
+/**
+ * Benchmark per-request parse latency on a large template.
+ *
+ * Simulates typing in a multi-thousand-line template and compares
+ * re-parsing the whole document on every request with the parse cache.
+ *
+ * Usage: npm run benchmark [-- <lines>]
+ */
+
+const { TextDocument } = require("vscode-languageserver-textdocument");
+const { TemplateParser } = require("../out/parser/template.js");
+const { ParseCache } = require("../out/parser/cache.js");
+
+const LINES = Number(process.argv[2]) || 5000;
+const EDITS = 200;
+
+// Build a template from a repeating block of wireview markup
+function createTemplate(lines) {
+  const block = [
+    "{% component_block 'Card' title=\"Item list\" %}",
+    "  {% fill header %}",
+    "    <h2>{{ title }}</h2>",
+    "    {# Header actions #}",
+    "    <button {% on 'click.prevent' 'refresh' %}>Refresh</button>",
+    "  {% endfill %}",
+    "  {% for item in items %}",
+    "    {% component 'Counter' count=item.count label='Count' %}",
+    "  {% endfor %}",
+    "{% endcomponent_block %}",
+  ];
+  const result = [];
+  while (result.length < lines) {
+    result.push(...block);
+  }
+  return result.slice(0, lines).join("\n");
+}
+
+function percentile(samples, p) {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function report(label, samples) {
+  const median = percentile(samples, 0.5).toFixed(3);
+  const p95 = percentile(samples, 0.95).toFixed(3);
+  console.log(`${label.padEnd(32)} median ${median} ms   p95 ${p95} ms`);
+}
+
+function time(fn) {
+  const start = process.hrtime.bigint();
+  fn();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+// Type one character per edit at the given fraction of the document
+function run(position) {
+  const parser = new TemplateParser();
+  const cache = new ParseCache(parser);
+  let document = TextDocument.create("file:///bench.html", "django-html", 0, createTemplate(LINES));
+  cache.get(document);
+
+  const uncached = [];
+  const cached = [];
+  const repeated = [];
+
+  for (let i = 0; i < EDITS; i++) {
+    const offset = Math.floor(document.getText().length * position);
+    const at = document.positionAt(offset);
+    const changes = [{ range: { start: at, end: at }, text: " " }];
+
+    cache.recordChanges(document, changes, document.version + 1);
+    document = TextDocument.update(document, changes, document.version + 1);
+
+    uncached.push(time(() => parser.getCursorContext(parser.parse(document.getText()), offset)));
+    cached.push(time(() => parser.getCursorContext(cache.get(document), offset)));
+    repeated.push(time(() => parser.getCursorContext(cache.get(document), offset)));
+  }
+
+  console.log(`\nEdits at ${Math.round(position * 100)}% of the document:`);
+  report("full parse per request", uncached);
+  report("cache, first request", cached);
+  report("cache, same version", repeated);
+}
+
+console.log(`Template: ${LINES} lines, ${EDITS} edits`);
+for (const position of [0.1, 0.5, 0.9]) {
+  run(position);
+}
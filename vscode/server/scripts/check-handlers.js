@@ -0,0 +1,377 @@
+/**
+ * Regression checks for handler edge cases.
+ *
+ * Runs the compiled handlers on small templates, with component Python
+ * files written to a temporary directory, and compares their results with
+ * the expected ones. Exits with an error listing every failed check.
+ *
+ * Usage: npm run check:handlers
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { TextDocument } = require("vscode-languageserver-textdocument");
+const { TextDocuments } = require("vscode-languageserver/node");
+const { TemplateParser } = require("../out/parser/template.js");
+const { getDiagnostics } = require("../out/handlers/diagnostics.js");
+const { getCodeActions } = require("../out/handlers/codeActions.js");
+const { prepareRename, getRenameEdit } = require("../out/handlers/rename.js");
+const { ParseCache } = require("../out/parser/cache.js");
+const { TemplateIndex } = require("../out/workspace/index.js");
+const { TemplateResolver } = require("../out/workspace/templates.js");
+const { findEnclosingComponent, findVariablesInScope } = require("../out/parser/scopes.js");
+
+const parser = new TemplateParser();
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "wireview-check-"));
+const failures = [];
+
+// Compare a result with the expected value
+function check(name, actual, expected) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${name}\n  expected: ${JSON.stringify(expected)}\n  actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+// Write a component's Python file and create metadata for it, given the
+// line numbers of its async methods and its slot names
+function createMetadata(name, source, methods = {}, slots = []) {
+  const filePath = path.join(directory, `${name.toLowerCase()}.py`);
+  fs.writeFileSync(filePath, source);
+
+  const methodInfo = {};
+  for (const [method, lineNumber] of Object.entries(methods)) {
+    methodInfo[method] = {
+      is_async: true,
+      parameters: {},
+      docstring: null,
+      line_number: lineNumber,
+    };
+  }
+
+  return {
+    version: "1.0",
+    generated_at: "",
+    components: {
+      [name]: {
+        name,
+        fqn: `app.live.${name}`,
+        app_key: `app:${name}`,
+        module: "app.live",
+        file_path: filePath,
+        line_number: source.split("\n").findIndex((line) => line.startsWith(`class ${name}`)) + 1,
+        docstring: null,
+        template_name: `app/${name.toLowerCase()}.html`,
+        fields: {},
+        methods: methodInfo,
+        slots: Object.fromEntries(slots.map((slot) => [slot, { required: false, doc: "" }])),
+        subscriptions: [],
+        subscriptions_is_dynamic: false,
+        temporary_assigns: [],
+      },
+    },
+    modifiers: {},
+  };
+}
+
+// Get the code actions offered at the `|` in a template
+function getActionsAt(text, metadata, only) {
+  const offset = text.indexOf("|");
+  const content = text.replace("|", "");
+  const document = TextDocument.create("file:///check.html", "django-html", 0, content);
+  const tree = parser.parse(content);
+  const position = document.positionAt(offset);
+
+  return getCodeActions(
+    document,
+    tree,
+    metadata,
+    {
+      textDocument: { uri: document.uri },
+      range: { start: position, end: position },
+      context: { diagnostics: getDiagnostics(document, tree, metadata), only },
+    },
+    { snippetCommand: false }
+  );
+}
+
+// Line at which a handler stub is inserted into a component's file
+function getStubLine(source, methods) {
+  const metadata = createMetadata("Counter", source, methods);
+  const actions = getActionsAt(
+    "{% component_block 'Counter' %}{% on 'click' 'save|' %}{% endcomponent_block %}",
+    metadata
+  );
+  const stub = actions.find((action) => action.title.startsWith("Create handler"));
+  if (!stub) return null;
+
+  const [edit] = Object.values(stub.edit.changes)[0];
+  return edit.range.start.line;
+}
+
+// Handler stubs go right after the class body, before module-level code
+const STUB_CASES = [
+  {
+    name: "unindented docstring line",
+    source: [
+      "class Counter(Component):",
+      "    def helper(self):",
+      '        """Help.',
+      "",
+      "Example:",
+      '        """',
+      "        return 1",
+      "",
+      "def other():",
+      "    return 1",
+    ],
+    methods: { helper: 2 },
+    line: 7,
+  },
+  {
+    name: "trailing comment on the class line",
+    source: [
+      "class Counter(Component):  # noqa: D101",
+      "    count: int = 0",
+      "",
+      "def other():",
+      "    return 1",
+    ],
+    methods: {},
+    line: 2,
+  },
+  {
+    name: "trailing comment on the last method",
+    source: [
+      "class Counter(Component):",
+      "    async def increment(self) -> None:  # handler",
+      "        pass",
+      "",
+      "def other():",
+      "    return 1",
+    ],
+    methods: { increment: 2 },
+    line: 3,
+  },
+  {
+    name: "one-line last method",
+    source: [
+      "class Counter(Component):",
+      "    async def increment(self): pass",
+      "",
+      "def other():",
+      "    return 1",
+    ],
+    methods: { increment: 2 },
+    line: 2,
+  },
+  {
+    name: "decorated method with a multi-line signature",
+    source: [
+      "class Counter(Component):",
+      "    @action(",
+      "        name='increment',",
+      "    )",
+      "    async def increment(",
+      "        self,",
+      "    ):",
+      "        pass",
+      "# module comment",
+      "",
+      "def other():",
+      "    return 1",
+    ],
+    methods: { increment: 2 },
+    line: 8,
+  },
+];
+
+for (const { name, source, methods, line } of STUB_CASES) {
+  check(`handler stub: ${name}`, getStubLine(source.join("\n"), methods), line);
+}
+
+// Normalizing is a source action: only offered when asked for by kind
+const normalizeMetadata = createMetadata("Counter", "class Counter(Component):\n    pass\n");
+const NORMALIZE_CASES = [
+  { name: "lightbulb request", only: undefined, titles: [] },
+  { name: "quick fix request", only: ["quickfix"], titles: [] },
+  {
+    name: "source action request",
+    only: ["source"],
+    titles: [
+      "Use fully qualified names for component references",
+      "Use app-prefixed names for component references",
+    ],
+  },
+];
+
+for (const { name, only, titles } of NORMALIZE_CASES) {
+  const actions = getActionsAt("<div>|</div>{% component 'Counter' %}", normalizeMetadata, only);
+  check(
+    `normalize: ${name}`,
+    actions.filter((action) => action.kind.startsWith("source")).map((action) => action.title),
+    titles
+  );
+}
+
+// Every block tag is nested in the tag tree, so consumers see through
+// Django blocks without keeping their own stack
+function parseAt(text) {
+  return { tree: parser.parse(text.replace("|", "")), offset: text.indexOf("|") };
+}
+
+const NESTING_CASES = [
+  {
+    name: "component_block inside for",
+    text: "{% for item in items %}{% component_block 'Counter' %}|{% endcomponent_block %}{% endfor %}",
+    component: "Counter",
+  },
+  {
+    name: "if inside component_block",
+    text: "{% component_block 'Counter' %}{% if shown %}|{% endif %}{% endcomponent_block %}",
+    component: "Counter",
+  },
+  {
+    name: "after a component_block closed inside if",
+    text: "{% if shown %}{% component_block 'Counter' %}{% endcomponent_block %}|{% endif %}",
+    component: null,
+  },
+];
+
+for (const { name, text, component } of NESTING_CASES) {
+  const { tree, offset } = parseAt(text);
+  check(`nesting: ${name}`, findEnclosingComponent(tree, offset) ?? null, component);
+}
+
+const fillInIf = parser.parse(
+  "{% component_block 'Counter' %}{% if shown %}{% fill 'body' %}{% endfill %}{% endif %}{% endcomponent_block %}"
+);
+check("nesting: fill inside if", fillInIf.errors.map((error) => error.kind), []);
+
+const VARIABLE_CASES = [
+  { name: "for body", text: "{% for item in items %}|{% empty %}{% endfor %}", variables: ["item", "forloop"] },
+  { name: "for empty clause", text: "{% for item in items %}{% empty %}|{% endfor %}", variables: [] },
+  {
+    name: "as inside if inside for",
+    text: "{% for item in items %}{% if item %}{% url 'a' as link %}{% endif %}|{% endfor %}",
+    variables: ["link", "item", "forloop"],
+  },
+  {
+    name: "as after its context block",
+    text: "{% for item in items %}{% url 'a' as link %}{% endfor %}|",
+    variables: [],
+  },
+];
+
+for (const { name, text, variables } of VARIABLE_CASES) {
+  const { tree, offset } = parseAt(text);
+  check(
+    `variables: ${name}`,
+    findVariablesInScope(tree, offset).map((variable) => variable.name),
+    variables
+  );
+}
+
+// Renames edit every template reference and the Python declaration
+const RENAME_TEMPLATE =
+  "{% component_block 'Counter' %}{% fill 'header' %}{% on 'click' 'increment' %}{% endfill %}{% endcomponent_block %}\n" +
+  "{% component_block 'Counter' %}{% fill 'header' %}{% endfill %}{% endcomponent_block %}";
+
+const RENAME_CASES = [
+  {
+    name: "handler",
+    source: ["class Counter(Component):", "    async def increment(self):", "        pass"],
+    cursor: "'incr|ement'",
+    newName: "add",
+    edits: ["check.html 0:65 add", "counter.py 1:14 add"],
+  },
+  {
+    name: "slot",
+    source: [
+      "class Counter(Component):",
+      '    slots = {"header": Slot(), "body": Slot()}  # "header" is shown first',
+    ],
+    cursor: "'hea|der'",
+    newName: "title",
+    edits: [
+      "check.html 0:40 title",
+      "check.html 1:40 title",
+      "counter.py 1:14 title",
+    ],
+  },
+  {
+    name: "slot named twice in the class",
+    source: [
+      "class Counter(Component):",
+      '    slots = {"header": Slot()}',
+      '    order = ["header"]',
+    ],
+    cursor: "'hea|der'",
+    newName: "title",
+    error: "Cannot find where Counter declares slot 'header' in its Python file",
+  },
+  {
+    name: "slot to an existing slot",
+    source: ["class Counter(Component):", '    slots = {"header": Slot(), "body": Slot()}'],
+    cursor: "'hea|der'",
+    newName: "body",
+    error: "Component 'Counter' already has a slot 'body'",
+  },
+];
+
+// Rename the name at the `|` in the first line of the rename template
+async function checkRenames() {
+  const templatePath = path.join(directory, "check.html");
+  fs.writeFileSync(templatePath, RENAME_TEMPLATE);
+  const document = TextDocument.create(
+    `file://${templatePath}`,
+    "django-html",
+    0,
+    RENAME_TEMPLATE
+  );
+  const tree = parser.parse(RENAME_TEMPLATE);
+
+  for (const { name, source, cursor, newName, edits, error } of RENAME_CASES) {
+    const metadata = createMetadata("Counter", source.join("\n"), { increment: 2 }, [
+      "header",
+      "body",
+    ]);
+    const index = new TemplateIndex(
+      parser,
+      new ParseCache(parser),
+      new TextDocuments(TextDocument),
+      new TemplateResolver(directory)
+    );
+    await index.rebuild(directory, ["*.html"], metadata);
+
+    const offset = RENAME_TEMPLATE.indexOf(cursor.replace("|", "")) + cursor.indexOf("|");
+    const context = parser.getCursorContext(tree, offset);
+    let actual;
+    try {
+      const prepared = prepareRename(document, tree, context, metadata, offset);
+      check(`rename: ${name} prepared`, prepared?.placeholder, cursor.replace(/['|]/g, ""));
+
+      const edit = getRenameEdit(context, metadata, index, newName);
+      actual = Object.entries(edit.changes).flatMap(([uri, fileEdits]) =>
+        fileEdits.map(
+          ({ range, newText }) =>
+            `${path.basename(uri)} ${range.start.line}:${range.start.character} ${newText}`
+        )
+      );
+    } catch (thrown) {
+      actual = thrown.message;
+    }
+    check(`rename: ${name}`, actual, error ?? edits);
+  }
+}
+
+checkRenames().then(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+
+  if (failures.length > 0) {
+    console.error(failures.join("\n"));
+    process.exit(1);
+  }
+
+  console.log("All handler checks passed");
+});
@@ -0,0 +1,97 @@
+/**
+ * Check that incremental re-parsing gives the same tree as a full parse.
+ *
+ * Replays known regressions, then applies random edits built from
+ * template syntax fragments and compares the parse cache with a fresh
+ * parse after each one. Exits with an error on the first mismatch.
+ *
+ * Usage: npm run check:reparse [-- <seed> <edits>]
+ */
+
+const { TextDocument } = require("vscode-languageserver-textdocument");
+const { TemplateParser } = require("../out/parser/template.js");
+const { ParseCache } = require("../out/parser/cache.js");
+
+const SEED = Number(process.argv[2]) || 1;
+const EDITS = Number(process.argv[3]) || 20000;
+
+// Fragments inserted by random edits
+const FRAGMENTS = [
+  "{%", "%}", "{{", "}}", "{#", "#}",
+  " comment ", " endcomment ", " verbatim ", " endverbatim ",
+  "component_block 'Card' ", "endcomponent_block", "fill header", "endfill",
+  "\n", "a", "x", "'", " ",
+];
+
+// Edits that re-parsed differently from a full parse: [content, offset, deleted, text]
+const REGRESSIONS = [
+  // Renaming {% endverbatim %} must not resume outside verbatim mode
+  ["{% verbatim %}a{% endverbatim %}{% component 'A' %}", 29, 0, "x"],
+];
+
+const parser = new TemplateParser();
+
+function serialize(tree) {
+  return JSON.stringify([tree.tokens, tree.tags, tree.nodes, tree.errors]);
+}
+
+// Apply one edit through the cache and compare with a full parse
+function check(cache, document, offset, deleted, text) {
+  // TextDocument.update edits the document in place
+  const before = document.getText();
+  const changes = [
+    {
+      range: {
+        start: document.positionAt(offset),
+        end: document.positionAt(offset + deleted),
+      },
+      text,
+    },
+  ];
+  cache.recordChanges(document, changes, document.version + 1);
+  const updated = TextDocument.update(document, changes, document.version + 1);
+
+  if (serialize(cache.get(updated)) !== serialize(parser.parse(updated.getText()))) {
+    console.error("Re-parse differs from full parse");
+    console.error(`  before: ${JSON.stringify(before)}`);
+    console.error(`  edit:   ${JSON.stringify([offset, deleted, text])}`);
+    process.exit(1);
+  }
+
+  return updated;
+}
+
+for (const [content, offset, deleted, text] of REGRESSIONS) {
+  const cache = new ParseCache(parser);
+  const document = TextDocument.create("file:///check.html", "django-html", 0, content);
+  cache.get(document);
+  check(cache, document, offset, deleted, text);
+}
+
+// Deterministic pseudo-random numbers, so failures can be replayed by seed
+let state = SEED;
+function random(n) {
+  state = (state * 1103515245 + 12345) & 0x7fffffff;
+  return state % n;
+}
+
+const initial = "{% component_block 'Card' %}{% fill header %}x{% endfill %}{% endcomponent_block %}";
+let cache = new ParseCache(parser);
+let document = TextDocument.create("file:///check.html", "django-html", 0, initial);
+cache.get(document);
+
+for (let i = 0; i < EDITS; i++) {
+  const length = document.getText().length;
+  const offset = random(length + 1);
+  const deleted = Math.min(length - offset, random(4));
+  document = check(cache, document, offset, deleted, FRAGMENTS[random(FRAGMENTS.length)]);
+
+  // Start over before the template gets slow to compare
+  if (document.getText().length > 800) {
+    cache = new ParseCache(parser);
+    document = TextDocument.create("file:///check.html", "django-html", 0, initial);
+    cache.get(document);
+  }
+}
+
+console.log(`${REGRESSIONS.length} regressions and ${EDITS} random edits re-parsed correctly`);
@@ -0,0 +1,630 @@
+/**
+ * Code action handler for wireview templates.
+ *
+ * Provides quick fixes for:
+ * - Missing required component attributes
+ * - Misspelled component, handler and modifier names
+ * - Unknown handlers, by generating a method stub in the component class
+ *
+ * And refactorings:
+ * - Converting between {% component %} and {% component_block %}
+ * - Normalizing component reference style (source actions)
+ */
+
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  Diagnostic,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import * as fs from "fs";
+
+import {
+  DiagnosticCodes,
+  UnknownHandlerData,
+  UnknownVariableData,
+} from "./diagnostics.js";
+import { getNormalizeEdits, ReferenceStyle } from "./normalize.js";
+import {
+  TagNode,
+  TagTree,
+  TemplateTag,
+  getComponentName,
+} from "../parser/template.js";
+import { findBlockEnd, getIndent } from "../parser/python.js";
+import { getFieldType, formatLiteral, TypeSpec } from "../metadata/annotations.js";
+import {
+  WireviewMetadata,
+  ComponentMetadata,
+  FieldInfo,
+} from "../metadata/types.js";
+import { findComponent } from "../metadata/lookup.js";
+
+/**
+ * Client command that inserts a snippet at a position (registered by the VSCode extension).
+ */
+export const INSERT_SNIPPET_COMMAND = "wireview.insertSnippet";
+
+/**
+ * Kind of the source actions normalizing component references.
+ */
+export const NORMALIZE_REFERENCES_KIND = `${CodeActionKind.Source}.wireview.normalizeReferences`;
+
+const REFERENCE_STYLE_LABELS: Record<ReferenceStyle, string> = {
+  fqn: "fully qualified names",
+  app_key: "app-prefixed names",
+};
+
+export interface CodeActionOptions {
+  /** Whether the client handles INSERT_SNIPPET_COMMAND */
+  snippetCommand: boolean;
+}
+
+/**
+ * Get code actions for the requested range.
+ */
+export function getCodeActions(
+  document: TextDocument,
+  tree: TagTree,
+  metadata: WireviewMetadata,
+  params: CodeActionParams,
+  options: CodeActionOptions
+): CodeAction[] {
+  const actions: CodeAction[] = [];
+  const only = params.context.only;
+
+  if (isKindRequested(only, CodeActionKind.QuickFix)) {
+    actions.push(...getQuickFixes(document, tree, metadata, params, options));
+  }
+
+  if (isKindRequested(only, CodeActionKind.RefactorRewrite)) {
+    const node = findNodeAt(tree.nodes, document.offsetAt(params.range.start));
+    if (node?.tag.name === "component") {
+      const action = getConvertToBlockAction(document, node.tag, metadata);
+      if (action) actions.push(action);
+    } else if (node?.tag.name === "component_block") {
+      const action = getConvertToInlineAction(document, node);
+      if (action) actions.push(action);
+    }
+  }
+
+  // Normalizing runs over the whole document, so only when the client
+  // asks for source actions by kind, never for the lightbulb
+  if (only && isKindRequested(only, NORMALIZE_REFERENCES_KIND)) {
+    actions.push(...getNormalizeActions(document, tree, metadata));
+  }
+
+  return actions;
+}
+
+/**
+ * Check if a code action kind is wanted by a request's `only` filter,
+ * which matches its kinds and their sub-kinds (`source` matches
+ * `source.wireview.normalizeReferences`). A request without a filter
+ * wants every kind.
+ */
+function isKindRequested(only: string[] | undefined, kind: string): boolean {
+  return (
+    !only ||
+    only.some((requested) => kind === requested || kind.startsWith(`${requested}.`))
+  );
+}
+
+/**
+ * Quick fixes for the diagnostics in the request.
+ */
+function getQuickFixes(
+  document: TextDocument,
+  tree: TagTree,
+  metadata: WireviewMetadata,
+  params: CodeActionParams,
+  options: CodeActionOptions
+): CodeAction[] {
+  const actions: CodeAction[] = [];
+
+  for (const diagnostic of params.context.diagnostics) {
+    if (diagnostic.code === DiagnosticCodes.missingAttributes) {
+      const action = getMissingAttributesFix(
+        document,
+        tree,
+        metadata,
+        diagnostic,
+        options
+      );
+      if (action) actions.push(action);
+    } else if (
+      diagnostic.code === DiagnosticCodes.unknownComponent ||
+      diagnostic.code === DiagnosticCodes.unknownHandler ||
+      diagnostic.code === DiagnosticCodes.unknownModifier ||
+      diagnostic.code === DiagnosticCodes.unknownVariable
+    ) {
+      actions.push(...getSpellingFixes(document, metadata, diagnostic));
+    }
+
+    if (diagnostic.code === DiagnosticCodes.unknownHandler) {
+      const action = getHandlerStubAction(document, tree, metadata, diagnostic);
+      if (action) actions.push(action);
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Source actions rewriting every component reference in the document to one style.
+ */
+function getNormalizeActions(
+  document: TextDocument,
+  tree: TagTree,
+  metadata: WireviewMetadata
+): CodeAction[] {
+  const actions: CodeAction[] = [];
+
+  for (const [style, label] of Object.entries(REFERENCE_STYLE_LABELS)) {
+    const edits = getNormalizeEdits(
+      document,
+      tree.tags,
+      metadata,
+      style as ReferenceStyle
+    );
+    if (edits.length === 0) continue;
+
+    actions.push({
+      title: `Use ${label} for component references`,
+      kind: NORMALIZE_REFERENCES_KIND,
+      edit: { changes: { [document.uri]: edits } },
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * Refactoring that turns {% component %} into a component_block with a
+ * {% fill %} stub for each slot (required slots first).
+ */
+function getConvertToBlockAction(
+  document: TextDocument,
+  tag: TemplateTag,
+  metadata: WireviewMetadata
+): CodeAction | null {
+  const name = getComponentName(tag);
+  const component = name ? findComponent(metadata, name.value) : undefined;
+
+  const slots = component
+    ? Object.entries(component.slots)
+        .sort(([, a], [, b]) => Number(b.required) - Number(a.required))
+        .map(([slotName]) => slotName)
+    : [];
+
+  // Match the indentation of the line the tag starts on
+  const start = document.positionAt(tag.startOffset);
+  const lineText = document.getText({ start: { line: start.line, character: 0 }, end: start });
+  const indent = lineText.match(/^\s*/)?.[0] ?? "";
+
+  const body = slots
+    .map((slotName) => `\n${indent}  {% fill ${slotName} %}{% endfill %}`)
+    .join("");
+
+  return {
+    title: "Convert to {% component_block %}",
+    kind: CodeActionKind.RefactorRewrite,
+    edit: {
+      changes: {
+        [document.uri]: [
+          {
+            range: {
+              start: document.positionAt(tag.nameStartOffset),
+              end: document.positionAt(tag.nameStartOffset + tag.name.length),
+            },
+            newText: "component_block",
+          },
+          {
+            range: {
+              start: document.positionAt(tag.endOffset),
+              end: document.positionAt(tag.endOffset),
+            },
+            newText: `${body}\n${indent}{% endcomponent_block %}`,
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * Refactoring that turns a component_block with a blank body back into an
+ * inline {% component %}. Other content is rendered by the component
+ * (its default slot), so moving it out would change the page.
+ */
+function getConvertToInlineAction(
+  document: TextDocument,
+  node: TagNode
+): CodeAction | null {
+  const { tag, endTag } = node;
+  if (!endTag) return null;
+
+  const body = document.getText({
+    start: document.positionAt(tag.endOffset),
+    end: document.positionAt(endTag.startOffset),
+  });
+  if (body.trim()) return null;
+
+  return {
+    title: "Convert to inline {% component %}",
+    kind: CodeActionKind.RefactorRewrite,
+    edit: {
+      changes: {
+        [document.uri]: [
+          {
+            range: {
+              start: document.positionAt(tag.nameStartOffset),
+              end: document.positionAt(tag.nameStartOffset + tag.name.length),
+            },
+            newText: "component",
+          },
+          {
+            range: {
+              start: document.positionAt(tag.endOffset),
+              end: document.positionAt(endTag.endOffset),
+            },
+            newText: "",
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * "Did you mean" fixes replacing a misspelled name with the closest known names.
+ */
+function getSpellingFixes(
+  document: TextDocument,
+  metadata: WireviewMetadata,
+  diagnostic: Diagnostic
+): CodeAction[] {
+  const token = document.getText(diagnostic.range);
+  if (!token) return [];
+
+  const candidates = getSpellingCandidates(metadata, diagnostic);
+  const suggestions = getClosestMatches(token, candidates);
+
+  return suggestions.map((suggestion, i) => ({
+    title: `Did you mean '${suggestion}'?`,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    isPreferred: i === 0,
+    edit: {
+      changes: {
+        [document.uri]: [{ range: diagnostic.range, newText: suggestion }],
+      },
+    },
+  }));
+}
+
+/**
+ * Get the names a misspelled token could have been meant as.
+ */
+function getSpellingCandidates(
+  metadata: WireviewMetadata,
+  diagnostic: Diagnostic
+): string[] {
+  switch (diagnostic.code) {
+    case DiagnosticCodes.unknownComponent:
+      return Object.entries(metadata.components).flatMap(([name, component]) => [
+        name,
+        component.fqn,
+        component.app_key,
+      ]);
+    case DiagnosticCodes.unknownHandler: {
+      const data = diagnostic.data as UnknownHandlerData | undefined;
+      const component = data ? findComponent(metadata, data.component) : undefined;
+      if (!component) return [];
+      return Object.entries(component.methods)
+        .filter(([, method]) => method.is_async)
+        .map(([name]) => name);
+    }
+    case DiagnosticCodes.unknownVariable: {
+      const data = diagnostic.data as UnknownVariableData | undefined;
+      const component = data ? findComponent(metadata, data.component) : undefined;
+      if (!component) return [];
+      return Object.keys(component.fields);
+    }
+    case DiagnosticCodes.unknownModifier:
+      // Skip internal modifiers
+      return Object.keys(metadata.modifiers).filter(
+        (name) => !name.startsWith("_") && name !== "inlinejs"
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get up to three candidates closest to a token by edit distance.
+ */
+function getClosestMatches(token: string, candidates: string[]): string[] {
+  const maxDistance = Math.max(2, Math.ceil(token.length * 0.4));
+  const lowerToken = token.toLowerCase();
+
+  return [...new Set(candidates)]
+    .map((candidate) => ({
+      candidate,
+      distance: editDistance(lowerToken, candidate.toLowerCase()),
+    }))
+    .filter(({ candidate, distance }) => distance <= maxDistance && candidate !== token)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Code action appending an async handler method to the component's Python class.
+ * Parameters are named after the keyword arguments used in the {% on %} tag.
+ */
+function getHandlerStubAction(
+  document: TextDocument,
+  tree: TagTree,
+  metadata: WireviewMetadata,
+  diagnostic: Diagnostic
+): CodeAction | null {
+  const data = diagnostic.data as UnknownHandlerData | undefined;
+  const component = data ? findComponent(metadata, data.component) : undefined;
+  if (!component || !component.file_path) return null;
+
+  const tag = findTagAt(tree.nodes, document.offsetAt(diagnostic.range.start));
+  if (!tag || tag.name !== "on") return null;
+
+  const handlerName = document.getText(diagnostic.range);
+  if (!/^[A-Za-z_]\w*$/.test(handlerName)) return null;
+
+  let source: string;
+  try {
+    source = fs.readFileSync(component.file_path, "utf-8");
+  } catch {
+    return null;
+  }
+
+  const insertion = findMethodInsertion(source.split(/\r?\n/), component);
+  if (!insertion) return null;
+
+  const params = tag.bits
+    .slice(2)
+    .map((bit) => bit.key)
+    .filter((key): key is string => Boolean(key));
+  const signature = ["self", ...new Set(params)].join(", ");
+  const indent = insertion.indent;
+  const stub =
+    `\n${indent}async def ${handlerName}(${signature}):\n` +
+    `${indent}    pass\n`;
+
+  return {
+    title: `Create handler '${handlerName}' in ${component.name}`,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: {
+      changes: {
+        [URI.file(component.file_path).toString()]: [
+          {
+            range: { start: insertion.position, end: insertion.position },
+            newText: insertion.atEndOfFile ? `\n${stub}` : stub,
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * Find where to add a method to a component class: after the last method
+ * defined in the class (by MethodInfo.line_number), or at the end of the class body.
+ */
+function findMethodInsertion(
+  lines: string[],
+  component: ComponentMetadata
+): {
+  position: { line: number; character: number };
+  indent: string;
+  atEndOfFile: boolean;
+} | null {
+  const classLine = component.line_number - 1;
+  if (classLine < 0 || classLine >= lines.length) return null;
+
+  const classEnd = findBlockEnd(lines, classLine);
+
+  // Methods inherited from base classes have line numbers in other files
+  const ownMethodLines = Object.values(component.methods)
+    .map((method) => method.line_number - 1)
+    .filter((line) => line > classLine && line <= classEnd);
+
+  let indent = `${getIndent(lines[classLine])}    `;
+  let end = classEnd;
+
+  if (ownMethodLines.length > 0) {
+    const lastMethodLine = Math.max(...ownMethodLines);
+    indent = getIndent(lines[lastMethodLine]);
+    end = findBlockEnd(lines, lastMethodLine);
+  }
+
+  const atEndOfFile = end + 1 >= lines.length;
+  return {
+    position: atEndOfFile
+      ? { line: end, character: lines[end].length }
+      : { line: end + 1, character: 0 },
+    indent,
+    atEndOfFile,
+  };
+}
+
+/**
+ * Quick fix inserting `name=` placeholders for every missing required field.
+ */
+function getMissingAttributesFix(
+  document: TextDocument,
+  tree: TagTree,
+  metadata: WireviewMetadata,
+  diagnostic: Diagnostic,
+  options: CodeActionOptions
+): CodeAction | null {
+  const tag = findTagAt(tree.nodes, document.offsetAt(diagnostic.range.start));
+  if (!tag || (tag.name !== "component" && tag.name !== "component_block")) {
+    return null;
+  }
+
+  const name = getComponentName(tag);
+  const component = name ? findComponent(metadata, name.value) : undefined;
+  if (!component) return null;
+
+  const passed = new Set(tag.bits.map((bit) => bit.key).filter(Boolean));
+  const missing = Object.entries(component.fields).filter(
+    ([fieldName, field]) => field.required && !passed.has(fieldName)
+  );
+  if (missing.length === 0) return null;
+
+  // Insert after the last argument, before the closing %}
+  const lastBit = tag.bits[tag.bits.length - 1];
+  const position = document.positionAt(lastBit.endOffset);
+  const title =
+    missing.length > 1
+      ? "Add missing required attributes"
+      : `Add missing required attribute '${missing[0][0]}'`;
+
+  if (options.snippetCommand) {
+    const snippet = missing
+      .map(([fieldName, field], i) => ` ${fieldName}=${getPlaceholder(field, i + 1)}`)
+      .join("");
+
+    return {
+      title,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      command: {
+        title,
+        command: INSERT_SNIPPET_COMMAND,
+        arguments: [document.uri, position, snippet],
+      },
+    };
+  }
+
+  const text = missing
+    .map(([fieldName, field]) => ` ${fieldName}=${getDefaultText(getFieldType(field))}`)
+    .join("");
+
+  return {
+    title,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    isPreferred: true,
+    edit: {
+      changes: {
+        [document.uri]: [{ range: { start: position, end: position }, newText: text }],
+      },
+    },
+  };
+}
+
+/**
+ * Build a snippet placeholder for a field value based on its type.
+ */
+function getPlaceholder(field: FieldInfo, index: number): string {
+  const spec = getValueType(getFieldType(field));
+
+  switch (spec.kind) {
+    case "literal": {
+      const choices = spec.values.map((value) => escapeChoice(formatLiteral(value)));
+      return `\${${index}|${choices.join(",")}|}`;
+    }
+    case "bool":
+      return `\${${index}|True,False|}`;
+    case "int":
+      return `\${${index}:0}`;
+    case "float":
+      return `\${${index}:0.0}`;
+    case "str":
+      return `"\${${index}}"`;
+    default:
+      return `\${${index}}`;
+  }
+}
+
+/**
+ * Get plain text default for a field value when snippets aren't available.
+ */
+function getDefaultText(spec: TypeSpec): string {
+  const valueType = getValueType(spec);
+
+  switch (valueType.kind) {
+    case "literal":
+      return valueType.values.length > 0 ? formatLiteral(valueType.values[0]) : '""';
+    case "bool":
+      return "False";
+    case "int":
+      return "0";
+    case "float":
+      return "0.0";
+    default:
+      return '""';
+  }
+}
+
+/**
+ * Pick the type to suggest a value for, skipping None in optional types.
+ */
+function getValueType(spec: TypeSpec): TypeSpec {
+  if (spec.kind !== "union") return spec;
+
+  const option = spec.options.find((o) => o.kind !== "none");
+  return option ? getValueType(option) : spec;
+}
+
+/**
+ * Escape a snippet choice element.
+ */
+function escapeChoice(text: string): string {
+  return text.replace(/[\\$},|]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * Find the innermost tag containing an offset.
+ */
+function findTagAt(nodes: TagNode[], offset: number): TemplateTag | null {
+  return findNodeAt(nodes, offset)?.tag ?? null;
+}
+
+/**
+ * Find the tree node whose opening tag contains an offset.
+ */
+function findNodeAt(nodes: TagNode[], offset: number): TagNode | null {
+  for (const node of nodes) {
+    if (offset >= node.tag.startOffset && offset <= node.tag.endOffset) {
+      return node;
+    }
+
+    const found = findNodeAt(node.children, offset);
+    if (found) return found;
+  }
+
+  return null;
+}
@@ -4,9 +4,13 @@
  * Provides autocompletion for:
  * - Component names
  * - Component attributes (Pydantic fields)
+ * - Attribute values (bools, Literal and enum members, None, defaults,
+ *   and template variables in scope)
  * - Event handlers (async methods)
+ * - Handler keyword arguments
  * - Event modifiers
- * - Slot names
+ * - Slot names and the `let:` variables slots provide
+ * - Component fields in template expressions
  */
 
 import {
@@ -17,7 +21,16 @@ import {
 } from "vscode-languageserver/node";
 
 import { CursorContext } from "../parser/template.js";
+import { ScopeVariable, VARIABLE_KIND_LABELS } from "../parser/scopes.js";
 import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { findComponent, isBaseMethod, isKeywordParameter } from "../metadata/lookup.js";
+import {
+  LiteralMember,
+  TypeSpec,
+  formatLiteral,
+  getFieldType,
+  isLiteralMember,
+} from "../metadata/annotations.js";
 
 /**
  * Get completion items based on cursor context.
@@ -31,14 +44,50 @@ export function getCompletions(
       return getComponentCompletions(metadata, context.currentValue);
     case "attribute_name":
       return getAttributeCompletions(metadata, context.componentName);
+    case "attribute_value": {
+      const items = getAttributeValueCompletions(
+        metadata,
+        context.componentName,
+        context.attributeName,
+        context.quoted
+      );
+      if (context.quoted) return items;
+
+      // Template variables sort after the field's own values
+      const variables = getVariableCompletions(
+        metadata,
+        context.owner,
+        context.variables
+      ).map((item) => ({ ...item, sortText: `2${item.sortText}` }));
+      return [...items, ...variables];
+    }
     case "handler_name":
       return getHandlerCompletions(metadata, context.componentName);
+    case "handler_argument":
+      return getHandlerArgumentCompletions(
+        metadata,
+        context.componentName,
+        context.handlerName
+      );
     case "event_name":
       return getEventCompletions();
     case "modifier":
       return getModifierCompletions(metadata, context.currentValue);
     case "slot_name":
       return getSlotCompletions(metadata, context.componentName);
+    case "let_binding":
+      return getLetBindingCompletions(
+        metadata,
+        context.componentName,
+        context.slotName,
+        context.currentValue
+      );
+    case "variable":
+      return getVariableCompletions(
+        metadata,
+        context.componentName,
+        context.variables
+      );
     default:
       return [];
   }
@@ -144,6 +193,129 @@ function getAttributeCompletions(
   return items;
 }
 
+/**
+ * Get value completions for an attribute from its field type.
+ */
+function getAttributeValueCompletions(
+  metadata: WireviewMetadata,
+  componentName?: string,
+  attributeName?: string,
+  quoted = false
+): CompletionItem[] {
+  if (!componentName || !attributeName) return [];
+
+  const component = findComponent(metadata, componentName);
+  if (!component) return [];
+
+  const field = component.fields[attributeName];
+  if (!field) return [];
+
+  const values = collectValues(getFieldType(field));
+
+  // The default is suggested even when the type has no fixed values.
+  // A None default without an optional type is a default factory.
+  const defaultValue = field.default;
+  const hasDefault =
+    !field.required &&
+    isLiteralMember(defaultValue) &&
+    (defaultValue !== null || values.includes(null));
+  if (hasDefault && !values.includes(defaultValue)) {
+    values.unshift(defaultValue);
+  }
+
+  // Enum values are described by their member names
+  const memberNames = new Map<unknown, string>();
+  for (const [name, value] of Object.entries(field.enum_members ?? {})) {
+    memberNames.set(value, name);
+  }
+
+  const items: CompletionItem[] = [];
+
+  values.forEach((value, index) => {
+    // Inside quotes, only string values can be inserted
+    if (quoted && typeof value !== "string") return;
+
+    const isDefault = hasDefault && value === defaultValue;
+    const memberName = memberNames.get(value);
+    const type = memberName ? `${field.type}.${memberName}` : field.type;
+
+    items.push({
+      label: quoted ? String(value) : formatLiteral(value),
+      kind:
+        value === null || typeof value === "boolean"
+          ? CompletionItemKind.Value
+          : CompletionItemKind.EnumMember,
+      detail: isDefault ? `${type} (default)` : type,
+      sortText: isDefault ? "0" : `1${String(index).padStart(4, "0")}`,
+      preselect: isDefault || undefined,
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Collect the fixed values a type accepts, in declaration order.
+ */
+function collectValues(spec: TypeSpec): LiteralMember[] {
+  switch (spec.kind) {
+    case "bool":
+      return [true, false];
+    case "none":
+      return [null];
+    case "literal":
+      return [...spec.values];
+    case "union":
+      return [...new Set(spec.options.flatMap(collectValues))];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get completions for template variables: variables bound at the cursor,
+ * then fields of the component rendering the template.
+ */
+function getVariableCompletions(
+  metadata: WireviewMetadata,
+  componentName?: string,
+  variables: ScopeVariable[] = []
+): CompletionItem[] {
+  const items: CompletionItem[] = [];
+  const seen = new Set<string>();
+
+  // Inner bindings shadow outer ones and fields
+  for (const variable of variables) {
+    if (seen.has(variable.name)) continue;
+    seen.add(variable.name);
+
+    items.push({
+      label: variable.name,
+      kind: CompletionItemKind.Variable,
+      detail: `${VARIABLE_KIND_LABELS[variable.kind]} ({% ${variable.tag.name} %})`,
+      sortText: `0${String(items.length).padStart(4, "0")}`,
+    });
+  }
+
+  const component = componentName ? findComponent(metadata, componentName) : undefined;
+  if (!component) return items;
+
+  for (const [name, field] of Object.entries(component.fields)) {
+    if (seen.has(name)) continue;
+
+    const defaultStr = field.default !== null ? ` = ${JSON.stringify(field.default)}` : "";
+    items.push({
+      label: name,
+      kind: CompletionItemKind.Field,
+      detail: `${field.type}${defaultStr}`,
+      documentation: field.description || undefined,
+      sortText: `1${String(items.length).padStart(4, "0")}`,
+    });
+  }
+
+  return items;
+}
+
 /**
  * Get event handler completions for a component.
  */
@@ -158,56 +330,9 @@ function getHandlerCompletions(
 
   const items: CompletionItem[] = [];
 
-  // Filter to only user-defined async methods (event handlers)
-  const excludedMethods = new Set([
-    // Base Component methods
-    "joined",
-    "leaving",
-    "notification",
-    "mutation",
-    "params_changed",
-    "handle_hook_event",
-    "broadcast",
-    "deffer",
-    "destroy",
-    "focus_on",
-    "skip_render",
-    "force_render",
-    "freeze",
-    "dom",
-    "stream",
-    "stream_insert",
-    "stream_delete",
-    "assign_async",
-    "allow_upload",
-    "cancel_upload",
-    "consume_uploads",
-    // Pydantic methods
-    "model_copy",
-    "model_dump",
-    "model_dump_json",
-    "model_json_schema",
-    "model_parametrized_name",
-    "model_post_init",
-    "model_rebuild",
-    "model_validate",
-    "model_validate_json",
-    "model_validate_strings",
-    "model_construct",
-    "copy",
-    "dict",
-    "json",
-    "parse_obj",
-    "parse_raw",
-    "parse_file",
-    "from_orm",
-    "construct",
-    "new",
-  ]);
-
   for (const [name, method] of Object.entries(component.methods)) {
     // Skip base class methods
-    if (excludedMethods.has(name)) continue;
+    if (isBaseMethod(name)) continue;
 
     // Only include async methods (event handlers should be async)
     if (!method.is_async) continue;
@@ -237,6 +362,45 @@ function getHandlerCompletions(
   return items;
 }
 
+/**
+ * Get keyword argument completions for an event handler's parameters.
+ */
+function getHandlerArgumentCompletions(
+  metadata: WireviewMetadata,
+  componentName?: string,
+  handlerName?: string
+): CompletionItem[] {
+  if (!componentName || !handlerName) return [];
+
+  const component = findComponent(metadata, componentName);
+  if (!component) return [];
+
+  const method = component.methods[handlerName];
+  if (!method) return [];
+
+  const items: CompletionItem[] = [];
+
+  for (const [name, param] of Object.entries(method.parameters)) {
+    // *args, **kwargs and positional-only parameters can't be passed by name
+    if (!isKeywordParameter(param.kind)) continue;
+
+    const typeStr = param.type || "Any";
+    const defaultStr = param.has_default ? ` = ${JSON.stringify(param.default)}` : "";
+    const requiredStr = param.has_default ? "" : " (required)";
+
+    items.push({
+      label: name,
+      kind: CompletionItemKind.Variable,
+      detail: `${typeStr}${defaultStr}${requiredStr}`,
+      insertText: `${name}=`,
+      insertTextFormat: InsertTextFormat.PlainText,
+      sortText: `${param.has_default ? 1 : 0}${name}`, // Required parameters first
+    });
+  }
+
+  return items;
+}
+
 /**
  * Get common DOM event name completions.
  */
@@ -339,25 +503,30 @@ function getSlotCompletions(
 }
 
 /**
- * Find a component by name (simple, FQN, or app prefix).
+ * Get `let:` binding completions for the variables a slot provides.
  */
-function findComponent(
+function getLetBindingCompletions(
   metadata: WireviewMetadata,
-  name: string
-): ComponentMetadata | undefined {
-  // Direct lookup
-  if (metadata.components[name]) {
-    return metadata.components[name];
-  }
-
-  // FQN or app prefix lookup
-  for (const component of Object.values(metadata.components)) {
-    if (component.fqn === name || component.app_key === name) {
-      return component;
-    }
-  }
+  componentName?: string,
+  slotName?: string,
+  prefix = ""
+): CompletionItem[] {
+  if (!componentName || !slotName) return [];
 
-  return undefined;
+  const component = findComponent(metadata, componentName);
+  const slot = component?.slots[slotName];
+  if (!slot?.provides) return [];
+
+  // After `let:`, only the variable name is inserted
+  const afterLet = prefix.startsWith("let:");
+
+  return slot.provides.map((name) => ({
+    label: `let:${name}`,
+    kind: CompletionItemKind.Variable,
+    detail: `Provided by slot '${slotName}'`,
+    filterText: afterLet ? name : `let:${name}`,
+    insertText: afterLet ? name : `let:${name}`,
+  }));
 }
 
 /**
@@ -392,7 +561,10 @@ function buildComponentDoc(component: ComponentMetadata): string {
     parts.push("**Slots**:");
     for (const [name, slot] of slotEntries) {
       const requiredStr = slot.required ? " (required)" : "";
-      parts.push(`- \`${name}\`${requiredStr}: ${slot.doc || ""}`);
+      const providesStr = slot.provides?.length
+        ? ` (provides ${slot.provides.map((v) => `\`${v}\``).join(", ")})`
+        : "";
+      parts.push(`- \`${name}\`${requiredStr}${providesStr}: ${slot.doc || ""}`);
     }
   }
 
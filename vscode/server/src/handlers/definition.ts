@@ -6,11 +6,11 @@
  * - Event handler method definitions
  */
 
-import { Definition, Location } from "vscode-languageserver/node";
-import { URI } from "vscode-uri";
+import { Definition } from "vscode-languageserver/node";
 
 import { CursorContext } from "../parser/template.js";
-import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { WireviewMetadata } from "../metadata/types.js";
+import { findComponent, createPythonLocation } from "../metadata/lookup.js";
 
 /**
  * Get definition location based on cursor context.
@@ -21,12 +21,12 @@ export function getDefinition(
 ): Definition | null {
   switch (context.position) {
     case "component_name":
-      return getComponentDefinition(metadata, context.currentValue);
+      return getComponentDefinition(metadata, context.fullValue);
     case "handler_name":
       return getHandlerDefinition(
         metadata,
         context.componentName,
-        context.currentValue
+        context.fullValue
       );
     default:
       return null;
@@ -45,13 +45,7 @@ function getComponentDefinition(
   const component = findComponent(metadata, componentName);
   if (!component || !component.file_path) return null;
 
-  return {
-    uri: URI.file(component.file_path).toString(),
-    range: {
-      start: { line: component.line_number - 1, character: 0 },
-      end: { line: component.line_number - 1, character: 0 },
-    },
-  };
+  return createPythonLocation(component.file_path, component.line_number);
 }
 
 /**
@@ -73,33 +67,5 @@ function getHandlerDefinition(
   // Use the method's line number if available
   const lineNumber = method.line_number || component.line_number;
 
-  return {
-    uri: URI.file(component.file_path).toString(),
-    range: {
-      start: { line: lineNumber - 1, character: 0 },
-      end: { line: lineNumber - 1, character: 0 },
-    },
-  };
-}
-
-/**
- * Find a component by name (simple, FQN, or app prefix).
- */
-function findComponent(
-  metadata: WireviewMetadata,
-  name: string
-): ComponentMetadata | undefined {
-  // Direct lookup
-  if (metadata.components[name]) {
-    return metadata.components[name];
-  }
-
-  // FQN or app prefix lookup
-  for (const component of Object.values(metadata.components)) {
-    if (component.fqn === name || component.app_key === name) {
-      return component;
-    }
-  }
-
-  return undefined;
+  return createPythonLocation(component.file_path, lineNumber);
 }
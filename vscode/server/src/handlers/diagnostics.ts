@@ -0,0 +1,627 @@
+/**
+ * Diagnostics handler for wireview templates.
+ *
+ * Reports problems in wireview tags:
+ * - Unknown component names
+ * - Missing required and unknown component attributes
+ * - Unknown or non-async handlers and invalid modifiers in `{% on %}` tags
+ * - Handler keyword arguments that don't match the method signature
+ * - Missing required slots and unknown slots in `{% component_block %}` bodies
+ * - `let:` bindings for variables a slot doesn't provide
+ * - Literal attribute values that don't match the field type
+ * - Unclosed, mismatched and misplaced block tags
+ * - Unknown variables in a component's own template
+ */
+
+import {
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  DiagnosticSeverity,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import {
+  TemplateTag,
+  TagNode,
+  TagTree,
+  TagStructureError,
+  getComponentName,
+  getHandlerName,
+  getSlotName,
+  getLetBindings,
+  collectFills,
+} from "../parser/template.js";
+import {
+  WireviewMetadata,
+  ComponentMetadata,
+  MethodInfo,
+} from "../metadata/types.js";
+import { findComponent, isKeywordParameter } from "../metadata/lookup.js";
+import { getFieldType, isAssignable } from "../metadata/annotations.js";
+import { classifyValue, unquote, QuotedValue } from "../parser/values.js";
+import { findVariables, getExpressionRanges } from "../parser/expressions.js";
+import { findVariablesInScope } from "../parser/scopes.js";
+
+const SOURCE = "wireview";
+
+/**
+ * Codes for diagnostics that code actions can fix.
+ */
+export const DiagnosticCodes = {
+  missingAttributes: "missing-attributes",
+  unknownComponent: "unknown-component",
+  unknownHandler: "unknown-handler",
+  unknownModifier: "unknown-modifier",
+  unknownVariable: "unknown-variable",
+} as const;
+
+/**
+ * Data attached to unknown handler diagnostics.
+ */
+export interface UnknownHandlerData {
+  /** FQN of the component the handler was looked up on */
+  component: string;
+}
+
+/**
+ * Data attached to unknown variable diagnostics.
+ */
+export interface UnknownVariableData {
+  /** FQN of the component owning the template */
+  component: string;
+}
+
+// Variables provided by Django and its default context processors
+const BUILTIN_VARIABLES = new Set([
+  "block",
+  "csrf_token",
+  "debug",
+  "forloop",
+  "messages",
+  "perms",
+  "request",
+  "sql_queries",
+  "user",
+  "DEFAULT_MESSAGE_LEVELS",
+  "LANGUAGES",
+  "LANGUAGE_BIDI",
+  "LANGUAGE_CODE",
+  "MEDIA_URL",
+  "STATIC_URL",
+  "TIME_ZONE",
+]);
+
+/**
+ * Get diagnostics for all wireview tags in a document.
+ *
+ * `owner` is the component rendering this template, the context for
+ * {% on %} handlers outside any component_block.
+ */
+export function getDiagnostics(
+  document: TextDocument,
+  tree: TagTree,
+  metadata: WireviewMetadata,
+  owner?: ComponentMetadata
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = tree.errors.map((error) =>
+    createStructureDiagnostic(document, error)
+  );
+  validateNodes(document, tree.nodes, metadata, owner, diagnostics);
+  if (owner) {
+    diagnostics.push(...validateVariables(document, tree, owner));
+  }
+  return diagnostics;
+}
+
+/**
+ * Create a diagnostic for a block nesting problem.
+ */
+function createStructureDiagnostic(
+  document: TextDocument,
+  error: TagStructureError
+): Diagnostic {
+  const { tag, openTag } = error;
+  let message: string;
+
+  switch (error.kind) {
+    case "unclosed":
+      message = `'{% ${tag.name} %}' is never closed (expected '{% end${tag.name} %}')`;
+      break;
+    case "mismatched":
+      message = `'{% ${tag.name} %}' found while '{% ${openTag?.name} %}' is still open (expected '{% end${openTag?.name} %}')`;
+      break;
+    case "unexpected":
+      message = `'{% ${tag.name} %}' has no matching '{% ${tag.name.slice(3)} %}'`;
+      break;
+    case "misplaced":
+      message = `'{% ${tag.name} %}' must be placed directly inside a '{% component_block %}'`;
+      break;
+  }
+
+  const diagnostic = createDiagnostic(
+    document,
+    tag.nameStartOffset,
+    tag.nameStartOffset + tag.name.length,
+    message,
+    DiagnosticSeverity.Error
+  );
+
+  if (openTag) {
+    const related: DiagnosticRelatedInformation = {
+      location: {
+        uri: document.uri,
+        range: {
+          start: document.positionAt(openTag.startOffset),
+          end: document.positionAt(openTag.endOffset),
+        },
+      },
+      message: `'{% ${openTag.name} %}' opened here`,
+    };
+    diagnostic.relatedInformation = [related];
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Validate a list of sibling tag nodes and their children.
+ *
+ * `component` is the enclosing component_block's component (or the
+ * template's owner), used as the context for {% on %} handlers.
+ */
+function validateNodes(
+  document: TextDocument,
+  nodes: TagNode[],
+  metadata: WireviewMetadata,
+  component: ComponentMetadata | undefined,
+  diagnostics: Diagnostic[]
+): void {
+  for (const node of nodes) {
+    const tag = node.tag;
+
+    switch (tag.name) {
+      case "component":
+        diagnostics.push(...validateComponentTag(document, tag, metadata));
+        break;
+      case "component_block": {
+        diagnostics.push(...validateComponentTag(document, tag, metadata));
+
+        const name = getComponentName(tag);
+        const blockComponent = name ? findComponent(metadata, name.value) : undefined;
+        if (blockComponent && name && node.endTag) {
+          diagnostics.push(...validateSlots(document, node, blockComponent, name));
+        }
+
+        validateNodes(document, node.children, metadata, blockComponent, diagnostics);
+        break;
+      }
+      case "on":
+        diagnostics.push(...validateOnTag(document, tag, metadata, component));
+        break;
+      default:
+        validateNodes(document, node.children, metadata, component, diagnostics);
+    }
+  }
+}
+
+/**
+ * Validate a component or component_block tag.
+ */
+function validateComponentTag(
+  document: TextDocument,
+  tag: TemplateTag,
+  metadata: WireviewMetadata
+): Diagnostic[] {
+  const name = getComponentName(tag);
+  if (!name) return [];
+
+  const component = findComponent(metadata, name.value);
+  if (!component) {
+    return [
+      createDiagnostic(
+        document,
+        name.startOffset,
+        name.endOffset,
+        `Unknown component '${name.value}'`,
+        DiagnosticSeverity.Error,
+        DiagnosticCodes.unknownComponent
+      ),
+    ];
+  }
+
+  return validateAttributes(document, tag, component, name);
+}
+
+/**
+ * Report required fields that are not passed and attributes that are not fields.
+ */
+function validateAttributes(
+  document: TextDocument,
+  tag: TemplateTag,
+  component: ComponentMetadata,
+  name: QuotedValue
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const passed = new Set<string>();
+
+  for (const bit of tag.bits.slice(1)) {
+    if (!bit.key) continue;
+    passed.add(bit.key);
+
+    const field = component.fields[bit.key];
+    if (!field) {
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          bit.startOffset,
+          bit.startOffset + bit.key.length,
+          `Unknown attribute '${bit.key}' for component '${component.name}'`,
+          DiagnosticSeverity.Warning
+        )
+      );
+      continue;
+    }
+
+    if (bit.value && !isAssignable(classifyValue(bit.value.text), getFieldType(field))) {
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          bit.value.startOffset,
+          bit.value.endOffset,
+          `Value ${bit.value.text} is not valid for '${bit.key}' (expected ${field.annotation || field.type})`,
+          DiagnosticSeverity.Warning
+        )
+      );
+    }
+  }
+
+  const missing = Object.entries(component.fields)
+    .filter(([fieldName, field]) => field.required && !passed.has(fieldName))
+    .map(([fieldName]) => fieldName);
+
+  if (missing.length > 0) {
+    const list = missing.map((fieldName) => `'${fieldName}'`).join(", ");
+    const plural = missing.length > 1 ? "s" : "";
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        name.startOffset,
+        name.endOffset,
+        `Missing required attribute${plural} ${list} for component '${component.name}'`,
+        DiagnosticSeverity.Error,
+        DiagnosticCodes.missingAttributes
+      )
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Validate an {% on 'event.modifier' 'handler' %} tag.
+ */
+function validateOnTag(
+  document: TextDocument,
+  tag: TemplateTag,
+  metadata: WireviewMetadata,
+  component: ComponentMetadata | undefined
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  const eventBit = tag.bits[0];
+  const event = eventBit ? unquote(eventBit) : null;
+  if (event) {
+    diagnostics.push(...validateModifiers(document, event, metadata));
+  }
+
+  // Handlers can only be checked when the enclosing component is known
+  const handler = getHandlerName(tag);
+  if (!component || !handler) return diagnostics;
+
+  const method = component.methods[handler.value];
+  if (!method) {
+    const data: UnknownHandlerData = { component: component.fqn };
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        handler.startOffset,
+        handler.endOffset,
+        `Unknown handler '${handler.value}' for component '${component.name}'`,
+        DiagnosticSeverity.Error,
+        DiagnosticCodes.unknownHandler,
+        data
+      )
+    );
+  } else if (!method.is_async) {
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        handler.startOffset,
+        handler.endOffset,
+        `Handler '${handler.value}' must be an async method`,
+        DiagnosticSeverity.Error
+      )
+    );
+  }
+
+  if (method) {
+    diagnostics.push(
+      ...validateHandlerArguments(document, tag, handler, method)
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check the keyword arguments of an {% on %} tag against the handler signature.
+ */
+function validateHandlerArguments(
+  document: TextDocument,
+  tag: TemplateTag,
+  handler: QuotedValue,
+  method: MethodInfo
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const params = Object.entries(method.parameters);
+  const acceptsAnyKeyword = params.some(([, param]) => param.kind === "VAR_KEYWORD");
+  const passed = new Set<string>();
+
+  for (const bit of tag.bits.slice(2)) {
+    if (!bit.key) continue;
+    passed.add(bit.key);
+
+    const param = method.parameters[bit.key];
+    if (param && isKeywordParameter(param.kind)) continue;
+    if (acceptsAnyKeyword) continue;
+
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        bit.startOffset,
+        bit.startOffset + bit.key.length,
+        `Handler '${handler.value}' has no parameter '${bit.key}'`,
+        DiagnosticSeverity.Error
+      )
+    );
+  }
+
+  const missing = params
+    .filter(
+      ([name, param]) =>
+        isKeywordParameter(param.kind) && !param.has_default && !passed.has(name)
+    )
+    .map(([name]) => `'${name}'`);
+
+  if (missing.length > 0) {
+    const plural = missing.length > 1 ? "s" : "";
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        handler.startOffset,
+        handler.endOffset,
+        `Handler '${handler.value}' is missing required argument${plural} ${missing.join(", ")}`,
+        DiagnosticSeverity.Warning
+      )
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Validate the modifiers of an event string like 'click.prevent.debounce.300'.
+ */
+function validateModifiers(
+  document: TextDocument,
+  event: QuotedValue,
+  metadata: WireviewMetadata
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  // Split into segments with their offsets
+  const segments: { value: string; startOffset: number; endOffset: number }[] = [];
+  let offset = event.startOffset;
+  for (const value of event.value.split(".")) {
+    segments.push({ value, startOffset: offset, endOffset: offset + value.length });
+    offset += value.length + 1;
+  }
+
+  // The first segment is the event name
+  for (let i = 1; i < segments.length; i++) {
+    const segment = segments[i];
+    if (!segment.value) continue;
+
+    if (/^\d+$/.test(segment.value)) {
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          segment.startOffset,
+          segment.endOffset,
+          `Unexpected modifier argument '${segment.value}'`,
+          DiagnosticSeverity.Error
+        )
+      );
+      continue;
+    }
+
+    const modifier = metadata.modifiers[segment.value];
+    if (!modifier) {
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          segment.startOffset,
+          segment.endOffset,
+          `Unknown modifier '${segment.value}'`,
+          DiagnosticSeverity.Error,
+          DiagnosticCodes.unknownModifier
+        )
+      );
+      continue;
+    }
+
+    if (modifier.has_argument) {
+      const argument = segments[i + 1];
+      if (argument && /^\d+$/.test(argument.value)) {
+        i++;
+      } else {
+        diagnostics.push(
+          createDiagnostic(
+            document,
+            segment.startOffset,
+            segment.endOffset,
+            `Modifier '${segment.value}' requires a numeric argument (e.g. '${segment.value}.300')`,
+            DiagnosticSeverity.Error
+          )
+        );
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check the {% fill %} tags of a closed component_block against the component's slots.
+ */
+function validateSlots(
+  document: TextDocument,
+  node: TagNode,
+  component: ComponentMetadata,
+  name: QuotedValue
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const filled = new Set<string>();
+
+  for (const fill of collectFills(node.children)) {
+    const slot = getSlotName(fill.tag);
+    if (!slot) continue;
+    filled.add(slot.value);
+
+    const slotInfo = component.slots[slot.value];
+    if (!slotInfo) {
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          slot.startOffset,
+          slot.endOffset,
+          `Component '${component.name}' has no slot '${slot.value}'`,
+          DiagnosticSeverity.Error
+        )
+      );
+      continue;
+    }
+
+    // Bindings can only be checked when the slot declares what it provides
+    if (!slotInfo.provides) continue;
+
+    for (const binding of getLetBindings(fill.tag)) {
+      if (slotInfo.provides.includes(binding.value)) continue;
+
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          binding.startOffset,
+          binding.endOffset,
+          `Slot '${slot.value}' of component '${component.name}' does not provide '${binding.value}'`,
+          DiagnosticSeverity.Warning
+        )
+      );
+    }
+  }
+
+  const missing = Object.entries(component.slots)
+    .filter(([slotName, slot]) => slot.required && !filled.has(slotName))
+    .map(([slotName]) => `'${slotName}'`);
+
+  if (missing.length > 0) {
+    const plural = missing.length > 1 ? "s" : "";
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        name.startOffset,
+        name.endOffset,
+        `Missing required slot${plural} ${missing.join(", ")} for component '${component.name}'`,
+        DiagnosticSeverity.Error
+      )
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Report variables in template expressions that are not fields or
+ * methods of the component owning the template.
+ */
+function validateVariables(
+  document: TextDocument,
+  tree: TagTree,
+  component: ComponentMetadata
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const data: UnknownVariableData = { component: component.fqn };
+
+  for (const range of getExpressionRanges(tree)) {
+    for (const variable of findVariables(tree.content, range.startOffset, range.endOffset)) {
+      const name = variable.path.split(".")[0];
+      if (
+        component.fields[name] ||
+        component.methods[name] ||
+        isBoundAt(tree, name, variable.startOffset) ||
+        BUILTIN_VARIABLES.has(name)
+      ) {
+        continue;
+      }
+
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          variable.startOffset,
+          variable.startOffset + name.length,
+          `Unknown variable '${name}' for component '${component.name}'`,
+          DiagnosticSeverity.Warning,
+          DiagnosticCodes.unknownVariable,
+          data
+        )
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check whether a template variable is bound at an offset.
+ */
+function isBoundAt(tree: TagTree, name: string, offset: number): boolean {
+  return findVariablesInScope(tree, offset).some((variable) => variable.name === name);
+}
+
+/**
+ * Create a wireview diagnostic for an offset range.
+ */
+function createDiagnostic(
+  document: TextDocument,
+  startOffset: number,
+  endOffset: number,
+  message: string,
+  severity: DiagnosticSeverity,
+  code?: string,
+  data?: unknown
+): Diagnostic {
+  const diagnostic: Diagnostic = {
+    severity,
+    range: {
+      start: document.positionAt(startOffset),
+      end: document.positionAt(endOffset),
+    },
+    message,
+    source: SOURCE,
+  };
+
+  if (code) diagnostic.code = code;
+  if (data) diagnostic.data = data;
+
+  return diagnostic;
+}
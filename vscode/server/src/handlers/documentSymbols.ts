@@ -0,0 +1,137 @@
+/**
+ * Document symbol handler for wireview templates.
+ *
+ * Outlines a template's wireview tags:
+ * - {% component_block %} blocks, with their fills and nested components
+ * - Inline {% component %} tags
+ * - {% on %} bindings, labeled `event → handler`
+ */
+
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import {
+  TagNode,
+  TagTree,
+  TemplateTag,
+  getComponentName,
+  getHandlerName,
+  getSlotName,
+} from "../parser/template.js";
+import { unquote } from "../parser/values.js";
+
+/**
+ * Get the outline of a template.
+ */
+export function getDocumentSymbols(
+  document: TextDocument,
+  tree: TagTree
+): DocumentSymbol[] {
+  return createSymbols(document, tree.nodes, tree.content.length);
+}
+
+/**
+ * Create symbols for a list of sibling nodes. Unclosed blocks extend to
+ * `parentEnd`, the end of the enclosing block.
+ */
+function createSymbols(
+  document: TextDocument,
+  nodes: TagNode[],
+  parentEnd: number
+): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+
+  for (const node of nodes) {
+    const { tag } = node;
+
+    switch (tag.name) {
+      case "component":
+      case "component_block": {
+        const name = getComponentName(tag);
+        symbols.push(
+          createSymbol(document, node, parentEnd, {
+            name: name?.value ?? tag.bits[0]?.text ?? tag.name,
+            detail: tag.name,
+            kind: SymbolKind.Class,
+            selection: name ?? tag.bits[0] ?? tag,
+          })
+        );
+        break;
+      }
+      case "fill": {
+        const slot = getSlotName(tag);
+        symbols.push(
+          createSymbol(document, node, parentEnd, {
+            name: slot?.value || "fill",
+            detail: "slot",
+            kind: SymbolKind.Field,
+            selection: slot ?? tag,
+          })
+        );
+        break;
+      }
+      case "on": {
+        const event = tag.bits[0] ? unquote(tag.bits[0]) : null;
+        const handler = getHandlerName(tag);
+        const eventName = event?.value || tag.bits[0]?.text || "on";
+        symbols.push(
+          createSymbol(document, node, parentEnd, {
+            name: handler ? `${eventName} → ${handler.value}` : eventName,
+            detail: "on",
+            kind: SymbolKind.Event,
+            selection: handler ?? event ?? tag,
+          })
+        );
+        break;
+      }
+      default: {
+        // Django blocks aren't outlined, but wireview tags inside them are
+        const end = node.endTag?.endOffset ?? parentEnd;
+        symbols.push(...createSymbols(document, node.children, end));
+      }
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Create the symbol of a node, with symbols for its children.
+ */
+function createSymbol(
+  document: TextDocument,
+  node: TagNode,
+  parentEnd: number,
+  options: {
+    name: string;
+    detail: string;
+    kind: SymbolKind;
+    /** Part of the tag selected when the symbol is revealed */
+    selection: { startOffset: number; endOffset: number };
+  }
+): DocumentSymbol {
+  const { tag, endTag } = node;
+  const end = endTag ? endTag.endOffset : isBlock(tag) ? parentEnd : tag.endOffset;
+
+  return {
+    name: options.name,
+    detail: options.detail,
+    kind: options.kind,
+    range: {
+      start: document.positionAt(tag.startOffset),
+      end: document.positionAt(end),
+    },
+    selectionRange: {
+      start: document.positionAt(options.selection.startOffset),
+      end: document.positionAt(options.selection.endOffset),
+    },
+    children: createSymbols(document, node.children, end),
+  };
+}
+
+/**
+ * Check if a tag opens a block with children.
+ */
+function isBlock(tag: TemplateTag): boolean {
+  return tag.name === "component_block" || tag.name === "fill";
+}
@@ -4,14 +4,18 @@
  * Provides hover documentation for:
  * - Component names (shows docstring, fields, slots)
  * - Event handlers (shows signature, docstring)
- * - Attributes (shows type, default value)
+ * - Attributes and template variables (shows type, default value)
+ * - Variables bound by {% for %}, {% with %}, let: and `as` (shows the binding tag)
  * - Modifiers (shows description)
+ * - Slots and their `let:` bindings (shows the variables a slot provides)
  */
 
 import { Hover, MarkupKind } from "vscode-languageserver/node";
 
 import { CursorContext } from "../parser/template.js";
+import { ScopeVariable, VARIABLE_KIND_LABELS } from "../parser/scopes.js";
 import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { findComponent, isBaseMethod } from "../metadata/lookup.js";
 
 /**
  * Get hover information based on cursor context.
@@ -22,23 +26,35 @@ export function getHover(
 ): Hover | null {
   switch (context.position) {
     case "component_name":
-      return getComponentHover(metadata, context.currentValue);
+      return getComponentHover(metadata, context.fullValue);
     case "handler_name":
       return getHandlerHover(
         metadata,
         context.componentName,
-        context.currentValue
+        context.fullValue
+      );
+    case "variable":
+      return (
+        getScopeVariableHover(context.variables, context.fullValue) ??
+        getAttributeHover(metadata, context.componentName, context.fullValue)
       );
     case "attribute_name":
       return getAttributeHover(
         metadata,
         context.componentName,
-        context.currentValue
+        context.fullValue
       );
     case "modifier":
-      return getModifierHover(metadata, context.currentValue);
+      return getModifierHover(metadata, context.fullValue);
     case "slot_name":
-      return getSlotHover(metadata, context.componentName, context.currentValue);
+      return getSlotHover(metadata, context.componentName, context.fullValue);
+    case "let_binding":
+      return getLetBindingHover(
+        metadata,
+        context.componentName,
+        context.slotName,
+        context.fullValue
+      );
     default:
       return null;
   }
@@ -113,7 +129,7 @@ function getHandlerHover(
 }
 
 /**
- * Get hover information for an attribute.
+ * Get hover information for an attribute or template variable (a field).
  */
 function getAttributeHover(
   metadata: WireviewMetadata,
@@ -155,6 +171,32 @@ function getAttributeHover(
   };
 }
 
+/**
+ * Get hover information for a template variable bound in the template.
+ */
+function getScopeVariableHover(
+  variables?: ScopeVariable[],
+  name?: string
+): Hover | null {
+  const variable = variables?.find((v) => v.name === name);
+  if (!variable) return null;
+
+  const tag = variable.tag;
+  const args = tag.bits.map((bit) => bit.text).join(" ");
+
+  const parts: string[] = [];
+  parts.push(`**${variable.name}** (${VARIABLE_KIND_LABELS[variable.kind]})`);
+  parts.push("");
+  parts.push(`\`\`\`django\n{% ${tag.name} ${args} %}\n\`\`\``);
+
+  return {
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: parts.join("\n"),
+    },
+  };
+}
+
 /**
  * Get hover information for an event modifier.
  */
@@ -215,6 +257,12 @@ function getSlotHover(
     parts.push("");
   }
 
+  if (slot.provides?.length) {
+    const provides = slot.provides.map((name) => `\`${name}\``).join(", ");
+    parts.push(`Provides: ${provides}`);
+    parts.push("");
+  }
+
   if (slot.doc) {
     parts.push(slot.doc);
   }
@@ -228,25 +276,45 @@ function getSlotHover(
 }
 
 /**
- * Find a component by name (simple, FQN, or app prefix).
+ * Get hover information for a `let:` binding on a {% fill %} tag.
  */
-function findComponent(
+function getLetBindingHover(
   metadata: WireviewMetadata,
-  name: string
-): ComponentMetadata | undefined {
-  // Direct lookup
-  if (metadata.components[name]) {
-    return metadata.components[name];
+  componentName?: string,
+  slotName?: string,
+  variableName?: string
+): Hover | null {
+  if (!componentName || !slotName || !variableName) return null;
+
+  const component = findComponent(metadata, componentName);
+  const slot = component?.slots[slotName];
+  if (!component || !slot) return null;
+
+  const parts: string[] = [];
+
+  const provided = slot.provides?.includes(variableName);
+  const status = provided ? "Provided" : "Not provided";
+  parts.push(`**let:${variableName}**`);
+  parts.push("");
+  parts.push(`${status} by slot \`${slotName}\` of ${component.name}`);
+
+  if (slot.provides?.length) {
+    const provides = slot.provides.map((name) => `\`${name}\``).join(", ");
+    parts.push("");
+    parts.push(`Provides: ${provides}`);
   }
 
-  // FQN or app prefix lookup
-  for (const component of Object.values(metadata.components)) {
-    if (component.fqn === name || component.app_key === name) {
-      return component;
-    }
+  if (slot.doc) {
+    parts.push("");
+    parts.push(slot.doc);
   }
 
-  return undefined;
+  return {
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: parts.join("\n"),
+    },
+  };
 }
 
 /**
@@ -303,39 +371,12 @@ function buildComponentDoc(component: ComponentMetadata): string {
     parts.push("");
     for (const [name, slot] of slotEntries) {
       const requiredStr = slot.required ? " *(required)*" : "";
-      parts.push(`- \`${name}\`${requiredStr}: ${slot.doc || ""}`);
+      const providesStr = slot.provides?.length
+        ? ` (provides ${slot.provides.map((v) => `\`${v}\``).join(", ")})`
+        : "";
+      parts.push(`- \`${name}\`${requiredStr}${providesStr}: ${slot.doc || ""}`);
     }
   }
 
   return parts.join("\n");
 }
-
-/**
- * Check if a method name is a base Component method.
- */
-function isBaseMethod(name: string): boolean {
-  const baseMethods = new Set([
-    "joined",
-    "leaving",
-    "notification",
-    "mutation",
-    "params_changed",
-    "handle_hook_event",
-    "broadcast",
-    "deffer",
-    "destroy",
-    "focus_on",
-    "skip_render",
-    "force_render",
-    "freeze",
-    "dom",
-    "stream",
-    "stream_insert",
-    "stream_delete",
-    "assign_async",
-    "allow_upload",
-    "cancel_upload",
-    "consume_uploads",
-  ]);
-  return baseMethods.has(name);
-}
@@ -0,0 +1,75 @@
+/**
+ * Component reference normalization.
+ *
+ * Rewrites component names in {% component %} and {% component_block %}
+ * tags to a single style: FQN or app prefix.
+ *
+ * Simple names aren't a target: metadata is keyed by simple name, so it
+ * can't tell whether two apps define components with the same one, and
+ * rewriting to simple names could change which component a tag renders.
+ */
+
+import { TextEdit } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { TemplateTag, getComponentName } from "../parser/template.js";
+import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { findComponent } from "../metadata/lookup.js";
+
+export type ReferenceStyle = "fqn" | "app_key";
+
+/**
+ * Check if a style requested by a client is one references can be
+ * normalized to.
+ */
+export function isReferenceStyle(style: unknown): style is ReferenceStyle {
+  return style === "fqn" || style === "app_key";
+}
+
+/**
+ * Get edits rewriting every component reference in a document to one style.
+ */
+export function getNormalizeEdits(
+  document: TextDocument,
+  tags: TemplateTag[],
+  metadata: WireviewMetadata,
+  style: ReferenceStyle
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+
+  for (const tag of tags) {
+    if (tag.name !== "component" && tag.name !== "component_block") continue;
+
+    const name = getComponentName(tag);
+    const component = name ? findComponent(metadata, name.value) : undefined;
+    if (!name || !component) continue;
+
+    const target = getReferenceName(component, style);
+    if (target === name.value) continue;
+
+    edits.push({
+      range: {
+        start: document.positionAt(name.startOffset),
+        end: document.positionAt(name.endOffset),
+      },
+      newText: target,
+    });
+  }
+
+  return edits;
+}
+
+/**
+ * Get the name of a component in the given reference style.
+ */
+function getReferenceName(
+  component: ComponentMetadata,
+  style: ReferenceStyle
+): string {
+  switch (style) {
+    case "fqn":
+      return component.fqn;
+    case "app_key":
+      return component.app_key;
+  }
+}
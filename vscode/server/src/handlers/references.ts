@@ -0,0 +1,181 @@
+/**
+ * Find All References handler for wireview components.
+ *
+ * Finds across workspace templates:
+ * - Component references in {% component %} and {% component_block %},
+ *   whether written as simple name, FQN, or app prefix
+ * - {% on %} tags targeting an event handler of a component
+ * - {% fill %} and {% render_slot %} tags naming a slot of a component
+ *
+ * The Python class or method is included as the declaration.
+ */
+
+import { Location } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { CursorContext, getHandlerName, getSlotName } from "../parser/template.js";
+import { QuotedValue } from "../parser/values.js";
+import { findEnclosingComponent } from "../parser/scopes.js";
+import { WireviewMetadata } from "../metadata/types.js";
+import { findComponent, createPythonLocation } from "../metadata/lookup.js";
+import { TemplateIndex } from "../workspace/index.js";
+
+/**
+ * Get reference locations based on cursor context.
+ */
+export function getReferences(
+  context: CursorContext,
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  includeDeclaration: boolean
+): Location[] {
+  switch (context.position) {
+    case "component_name":
+      return getComponentReferences(
+        metadata,
+        index,
+        includeDeclaration,
+        context.fullValue
+      );
+    case "handler_name":
+      return getHandlerReferences(
+        metadata,
+        index,
+        includeDeclaration,
+        context.componentName,
+        context.fullValue
+      );
+    case "slot_name":
+      return getSlotReferences(
+        metadata,
+        index,
+        context.componentName,
+        context.fullValue
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Find every {% component %} and {% component_block %} tag referencing a component.
+ */
+function getComponentReferences(
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  includeDeclaration: boolean,
+  componentName?: string
+): Location[] {
+  if (!componentName) return [];
+
+  const component = findComponent(metadata, componentName);
+  if (!component) return [];
+
+  const locations: Location[] = [];
+
+  if (includeDeclaration && component.file_path) {
+    locations.push(createPythonLocation(component.file_path, component.line_number));
+  }
+
+  for (const usage of index.findComponentUsages(metadata, component)) {
+    locations.push(createLocation(usage.source.document, usage.name));
+  }
+
+  return locations;
+}
+
+/**
+ * Find every {% on %} tag targeting a handler in the context of its component.
+ */
+function getHandlerReferences(
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  includeDeclaration: boolean,
+  componentName?: string,
+  handlerName?: string
+): Location[] {
+  if (!componentName || !handlerName) return [];
+
+  const component = findComponent(metadata, componentName);
+  if (!component) return [];
+
+  const method = component.methods[handlerName];
+  if (!method) return [];
+
+  const locations: Location[] = [];
+
+  if (includeDeclaration && component.file_path) {
+    const lineNumber = method.line_number || component.line_number;
+    locations.push(createPythonLocation(component.file_path, lineNumber));
+  }
+
+  for (const { document, tree, owner } of index.templates()) {
+    for (const tag of tree.tags) {
+      if (tag.name !== "on") continue;
+
+      const handler = getHandlerName(tag);
+      if (!handler || handler.value !== handlerName) continue;
+
+      // Same context as completion: the enclosing component, else the owner
+      const target =
+        findEnclosingComponent(tree, tag.startOffset) ?? owner?.fqn;
+      if (!target || findComponent(metadata, target)?.fqn !== component.fqn) {
+        continue;
+      }
+
+      locations.push(createLocation(document, handler));
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Find every {% fill %} and {% render_slot %} tag naming a slot of a component.
+ */
+function getSlotReferences(
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  componentName?: string,
+  slotName?: string
+): Location[] {
+  if (!componentName || !slotName) return [];
+
+  const component = findComponent(metadata, componentName);
+  if (!component || !component.slots[slotName]) return [];
+
+  const locations: Location[] = [];
+
+  for (const { document, tree, owner } of index.templates()) {
+    for (const tag of tree.tags) {
+      if (tag.name !== "fill" && tag.name !== "render_slot") continue;
+
+      const slot = getSlotName(tag);
+      if (!slot || slot.value !== slotName) continue;
+
+      // Fills name slots of the enclosing block; render_slot falls back to the owner
+      const enclosing = findEnclosingComponent(tree, tag.startOffset);
+      const target = tag.name === "fill" ? enclosing : enclosing ?? owner?.fqn;
+      if (!target || findComponent(metadata, target)?.fqn !== component.fqn) {
+        continue;
+      }
+
+      locations.push(createLocation(document, slot));
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Create a location for a name in a template.
+ */
+function createLocation(document: TextDocument, name: QuotedValue): Location {
+  return {
+    uri: document.uri,
+    range: {
+      start: document.positionAt(name.startOffset),
+      end: document.positionAt(name.endOffset),
+    },
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Rename handler for wireview components.
+ *
+ * Renames across workspace templates, and in the component's Python file:
+ * - Event handlers in {% on %} tags, and their `def` line
+ * - Slot names in {% fill %} and {% render_slot %} tags, and the string
+ *   naming the slot in the component class
+ */
+
+import {
+  ErrorCodes,
+  Range,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import * as fs from "fs";
+
+import {
+  CursorContext,
+  TagTree,
+  TemplateTag,
+  getHandlerName,
+  getSlotName,
+} from "../parser/template.js";
+import { QuotedValue } from "../parser/values.js";
+import { PythonLineScan, findBlockEnd, scanPythonLine } from "../parser/python.js";
+import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { findComponent } from "../metadata/lookup.js";
+import { TemplateIndex } from "../workspace/index.js";
+import { getReferences } from "./references.js";
+
+// Handler and slot names must be valid Python identifiers
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+// A function definition line: `def name(` or `async def name(`
+const DEF_LINE = /^(\s*(?:async\s+)?def\s+)(\w+)\s*\(/;
+
+/**
+ * Get the range and current text of a renameable name at an offset.
+ */
+export function prepareRename(
+  document: TextDocument,
+  tree: TagTree,
+  context: CursorContext,
+  metadata: WireviewMetadata,
+  offset: number
+): { range: Range; placeholder: string } | null {
+  if (!context.componentName) return null;
+
+  const component = findComponent(metadata, context.componentName);
+  const tag = findTagAt(tree.tags, offset);
+  if (!component || !tag) return null;
+
+  let name: QuotedValue | null = null;
+  switch (context.position) {
+    case "handler_name":
+      name = getHandlerName(tag);
+      if (!name || !component.methods[name.value]) return null;
+      break;
+    case "slot_name":
+      name = getSlotName(tag);
+      if (!name || !component.slots[name.value]) return null;
+      break;
+    default:
+      return null;
+  }
+
+  if (offset < name.startOffset || offset > name.endOffset) return null;
+
+  return {
+    range: {
+      start: document.positionAt(name.startOffset),
+      end: document.positionAt(name.endOffset),
+    },
+    placeholder: name.value,
+  };
+}
+
+/**
+ * Get the edits renaming the handler or slot at the cursor.
+ *
+ * Throws a ResponseError when the new name is invalid or already taken,
+ * or the declaration can't be found in the component's Python file.
+ */
+export function getRenameEdit(
+  context: CursorContext,
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  newName: string
+): WorkspaceEdit | null {
+  if (!context.componentName || !context.fullValue) return null;
+
+  const component = findComponent(metadata, context.componentName);
+  if (!component) return null;
+
+  const name = context.fullValue;
+  switch (context.position) {
+    case "handler_name":
+      return getHandlerRenameEdit(context, metadata, index, component, name, newName);
+    case "slot_name":
+      return getSlotRenameEdit(context, metadata, index, component, name, newName);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rename a handler in {% on %} tags and its Python definition.
+ */
+function getHandlerRenameEdit(
+  context: CursorContext,
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  component: ComponentMetadata,
+  handlerName: string,
+  newName: string
+): WorkspaceEdit | null {
+  const method = component.methods[handlerName];
+  if (!method) return null;
+
+  checkIdentifier(newName);
+
+  if (component.methods[newName]) {
+    throw new ResponseError(
+      ErrorCodes.InvalidParams,
+      `Component '${component.name}' already has a method '${newName}'`
+    );
+  }
+
+  const definition = findDefinition(component, handlerName, method.line_number);
+  if (!definition) {
+    throw new ResponseError(
+      ErrorCodes.InvalidRequest,
+      `Cannot find the definition of '${handlerName}' in ${component.name}'s Python file`
+    );
+  }
+
+  const changes = getTemplateChanges(context, metadata, index, newName);
+  (changes[definition.uri] ??= []).push({ range: definition.range, newText: newName });
+
+  return { changes };
+}
+
+/**
+ * Rename a slot in {% fill %} and {% render_slot %} tags and its
+ * declaration.
+ */
+function getSlotRenameEdit(
+  context: CursorContext,
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  component: ComponentMetadata,
+  slotName: string,
+  newName: string
+): WorkspaceEdit | null {
+  if (!component.slots[slotName]) return null;
+
+  checkIdentifier(newName);
+
+  if (component.slots[newName]) {
+    throw new ResponseError(
+      ErrorCodes.InvalidParams,
+      `Component '${component.name}' already has a slot '${newName}'`
+    );
+  }
+
+  const declaration = findSlotDeclaration(component, slotName);
+  if (!declaration) {
+    throw new ResponseError(
+      ErrorCodes.InvalidRequest,
+      `Cannot find where ${component.name} declares slot '${slotName}' in its Python file`
+    );
+  }
+
+  const changes = getTemplateChanges(context, metadata, index, newName);
+  (changes[declaration.uri] ??= []).push({ range: declaration.range, newText: newName });
+
+  return { changes };
+}
+
+/**
+ * Throw a ResponseError unless a new name is a valid Python identifier.
+ */
+function checkIdentifier(newName: string): void {
+  if (!IDENTIFIER.test(newName)) {
+    throw new ResponseError(
+      ErrorCodes.InvalidParams,
+      `'${newName}' is not a valid Python identifier`
+    );
+  }
+}
+
+/**
+ * Get the edits replacing every template reference to the name at the
+ * cursor, by document URI.
+ */
+function getTemplateChanges(
+  context: CursorContext,
+  metadata: WireviewMetadata,
+  index: TemplateIndex,
+  newName: string
+): Record<string, TextEdit[]> {
+  const changes: Record<string, TextEdit[]> = {};
+
+  for (const location of getReferences(context, metadata, index, false)) {
+    (changes[location.uri] ??= []).push({ range: location.range, newText: newName });
+  }
+
+  return changes;
+}
+
+/**
+ * Find the name in a method's `def` line. The line number may point at a
+ * decorator, so the following lines are searched up to the first `def`.
+ */
+function findDefinition(
+  component: ComponentMetadata,
+  methodName: string,
+  lineNumber: number
+): { uri: string; range: Range } | null {
+  const lines = readLines(component.file_path);
+  if (!lines || !lineNumber) return null;
+
+  for (let line = lineNumber - 1; line >= 0 && line < lines.length; line++) {
+    const match = lines[line].match(DEF_LINE);
+    if (!match) continue;
+
+    // Methods inherited from base classes have line numbers in other files
+    if (match[2] !== methodName) return null;
+
+    const character = match[1].length;
+    return {
+      uri: URI.file(component.file_path).toString(),
+      range: {
+        start: { line, character },
+        end: { line, character: character + methodName.length },
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find the string naming a slot in the component's class body, as in
+ * `slots = {"header": Slot()}`. Null unless exactly one string matches,
+ * so an ambiguous declaration is never guessed.
+ */
+function findSlotDeclaration(
+  component: ComponentMetadata,
+  slotName: string
+): { uri: string; range: Range } | null {
+  const lines = readLines(component.file_path);
+  const classLine = component.line_number - 1;
+  if (!lines || classLine < 0 || classLine >= lines.length) return null;
+
+  const matches: Range[] = [];
+  const classEnd = findBlockEnd(lines, classLine);
+  let scan: PythonLineScan | null = null;
+
+  for (let line = classLine; line <= classEnd; line++) {
+    scan = scanPythonLine(lines[line], scan);
+    for (const string of scan.strings) {
+      if (string.value !== slotName) continue;
+      matches.push({
+        start: { line, character: string.start },
+        end: { line, character: string.end },
+      });
+    }
+  }
+
+  if (matches.length !== 1) return null;
+  return { uri: URI.file(component.file_path).toString(), range: matches[0] };
+}
+
+/**
+ * Read the lines of a Python file, or null if it can't be read.
+ */
+function readLines(filePath: string): string[] | null {
+  if (!filePath) return null;
+
+  try {
+    return fs.readFileSync(filePath, "utf-8").split(/\r?\n/);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the tag containing an offset.
+ */
+function findTagAt(tags: TemplateTag[], offset: number): TemplateTag | undefined {
+  return tags.find((tag) => tag.startOffset <= offset && offset <= tag.endOffset);
+}
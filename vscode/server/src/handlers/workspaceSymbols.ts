@@ -0,0 +1,154 @@
+/**
+ * Workspace symbol handler for wireview components.
+ *
+ * Lists components, searchable by simple name, FQN or app prefix, and
+ * their event handlers as `Component.handler`. Queries are matched fuzzily:
+ * the query's characters must appear in order, and matches at word
+ * starts and runs of consecutive characters rank higher.
+ */
+
+import {
+  Location,
+  SymbolInformation,
+  SymbolKind,
+} from "vscode-languageserver/node";
+
+import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { createPythonLocation, isBaseMethod } from "../metadata/lookup.js";
+
+// Results returned for one query; clients re-query as the user types
+const MAX_RESULTS = 200;
+
+interface SymbolEntry {
+  /** Names the symbol can be found by, in order of preference */
+  names: string[];
+  kind: SymbolKind;
+  location: Location;
+  /** FQN of the component, shown next to the name */
+  containerName: string;
+}
+
+// Entries are built once per metadata load
+const entryCache = new WeakMap<WireviewMetadata, SymbolEntry[]>();
+
+/**
+ * Get the workspace symbols matching a query, best matches first.
+ */
+export function getWorkspaceSymbols(
+  metadata: WireviewMetadata,
+  query: string
+): SymbolInformation[] {
+  const needle = query.replace(/\s+/g, "").toLowerCase();
+  const matches: { symbol: SymbolInformation; score: number }[] = [];
+
+  for (const entry of getEntries(metadata)) {
+    // Show the symbol under the name that matches best
+    let best: { name: string; score: number } | null = null;
+    for (const name of entry.names) {
+      const score = fuzzyScore(needle, name);
+      if (score !== null && (!best || score > best.score)) {
+        best = { name, score };
+      }
+    }
+    if (!best) continue;
+
+    matches.push({
+      symbol: {
+        name: best.name,
+        kind: entry.kind,
+        location: entry.location,
+        containerName: best.name === entry.containerName ? undefined : entry.containerName,
+      },
+      // Shorter names win ties
+      score: best.score - best.name.length / 1000,
+    });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map((match) => match.symbol);
+}
+
+/**
+ * Get the symbol entries for all components and their handlers.
+ */
+function getEntries(metadata: WireviewMetadata): SymbolEntry[] {
+  let entries = entryCache.get(metadata);
+  if (!entries) {
+    entries = Object.values(metadata.components).flatMap(createEntries);
+    entryCache.set(metadata, entries);
+  }
+  return entries;
+}
+
+/**
+ * Create the entries of a component and its event handlers.
+ */
+function createEntries(component: ComponentMetadata): SymbolEntry[] {
+  if (!component.file_path) return [];
+
+  const entries: SymbolEntry[] = [
+    {
+      names: [component.name, component.app_key, component.fqn],
+      kind: SymbolKind.Class,
+      location: createPythonLocation(component.file_path, component.line_number),
+      containerName: component.fqn,
+    },
+  ];
+
+  for (const [name, method] of Object.entries(component.methods)) {
+    if (!method.is_async || isBaseMethod(name)) continue;
+
+    entries.push({
+      names: [`${component.name}.${name}`],
+      kind: SymbolKind.Method,
+      location: createPythonLocation(
+        component.file_path,
+        method.line_number || component.line_number
+      ),
+      containerName: component.fqn,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Score how well a lowercase query matches a name, or null if the
+ * query's characters don't all appear in order. Higher is better.
+ */
+function fuzzyScore(query: string, name: string): number | null {
+  const lower = name.toLowerCase();
+  let score = 0;
+  let queryIndex = 0;
+  let previous = -2;
+
+  for (let i = 0; i < name.length && queryIndex < query.length; i++) {
+    if (lower[i] !== query[queryIndex]) continue;
+
+    score += 1;
+    if (i === previous + 1) score += 2;
+    if (isWordStart(name, i)) score += 3;
+
+    previous = i;
+    queryIndex++;
+  }
+
+  return queryIndex === query.length ? score : null;
+}
+
+/**
+ * Check if a character starts a word: the first character, one after a
+ * separator, or an uppercase letter after a lowercase one.
+ */
+function isWordStart(name: string, index: number): boolean {
+  if (index === 0) return true;
+
+  const previous = name[index - 1];
+  const char = name[index];
+  return (
+    /[._:]/.test(previous) ||
+    (char !== char.toLowerCase() && previous === previous.toLowerCase())
+  );
+}
@@ -0,0 +1,217 @@
+/**
+ * Interpretation of Pydantic field annotations.
+ *
+ * Understands the common annotation forms used by component fields
+ * (builtins, Optional, Union, Literal, Annotated) and checks literal
+ * template values against them using Pydantic's lax validation rules.
+ */
+
+import { FieldInfo } from "./types.js";
+import { LiteralValue, classifyValue } from "../parser/values.js";
+
+/** A value that can be written as a template literal */
+export type LiteralMember = string | number | boolean | null;
+
+export type TypeSpec =
+  | { kind: "any" }
+  | { kind: "int" }
+  | { kind: "float" }
+  | { kind: "str" }
+  | { kind: "bool" }
+  | { kind: "none" }
+  | { kind: "literal"; values: LiteralMember[] }
+  | { kind: "union"; options: TypeSpec[] };
+
+// Strings Pydantic accepts for bool fields
+const BOOL_STRINGS = new Set([
+  "0", "off", "f", "false", "n", "no",
+  "1", "on", "t", "true", "y", "yes",
+]);
+
+/**
+ * Get the type of a component field, preferring the full annotation.
+ */
+export function getFieldType(field: FieldInfo): TypeSpec {
+  const spec = parseAnnotation(field.annotation || field.type);
+
+  // Enum fields accept their member values, and None only when the
+  // annotation says so (a plain enum annotation parses to `any`)
+  if (field.enum_members) {
+    const values = Object.values(field.enum_members).filter(isLiteralMember);
+    const enumSpec: TypeSpec = { kind: "literal", values };
+    return hasNoneOption(spec)
+      ? { kind: "union", options: [enumSpec, { kind: "none" }] }
+      : enumSpec;
+  }
+
+  return spec;
+}
+
+/**
+ * Parse a Python annotation string such as `Optional[Literal['a', 'b']]`.
+ * Unsupported annotations are returned as `any`.
+ */
+export function parseAnnotation(annotation: string): TypeSpec {
+  const text = normalize(annotation);
+
+  // PEP 604 unions: int | None
+  const unionParts = splitTopLevel(text, "|");
+  if (unionParts.length > 1) {
+    return { kind: "union", options: unionParts.map(parseAnnotation) };
+  }
+
+  const generic = text.match(/^([\w.]+)\[(.*)\]$/s);
+  if (generic) {
+    const args = splitTopLevel(generic[2], ",");
+    switch (generic[1]) {
+      case "Optional":
+        return {
+          kind: "union",
+          options: [parseAnnotation(args[0]), { kind: "none" }],
+        };
+      case "Union":
+        return { kind: "union", options: args.map(parseAnnotation) };
+      case "Annotated":
+        return parseAnnotation(args[0]);
+      case "Literal":
+        return { kind: "literal", values: args.map(parseLiteralArg) };
+      default:
+        return { kind: "any" };
+    }
+  }
+
+  switch (text) {
+    case "int":
+      return { kind: "int" };
+    case "float":
+      return { kind: "float" };
+    case "str":
+      return { kind: "str" };
+    case "bool":
+      return { kind: "bool" };
+    case "None":
+    case "NoneType":
+      return { kind: "none" };
+    default:
+      return { kind: "any" };
+  }
+}
+
+/**
+ * Check whether a literal template value would pass validation for a type.
+ * Unknown values (variables, filtered expressions) are always accepted.
+ */
+export function isAssignable(value: LiteralValue, spec: TypeSpec): boolean {
+  if (value.kind === "unknown") return true;
+
+  switch (spec.kind) {
+    case "any":
+      return true;
+    case "union":
+      return spec.options.some((option) => isAssignable(value, option));
+    case "literal":
+      return spec.values.some((allowed) => allowed === value.value);
+    case "none":
+      return value.kind === "none";
+    case "str":
+      return value.kind === "str";
+    case "int":
+      if (value.kind === "int" || value.kind === "bool") return true;
+      if (value.kind === "float") return Number.isInteger(value.value);
+      if (value.kind === "str") return /^\s*[-+]?\d+\s*$/.test(value.value);
+      return false;
+    case "float":
+      if (value.kind === "int" || value.kind === "float" || value.kind === "bool") {
+        return true;
+      }
+      if (value.kind === "str") {
+        return value.value.trim() !== "" && !isNaN(Number(value.value));
+      }
+      return false;
+    case "bool":
+      if (value.kind === "bool") return true;
+      if (value.kind === "int") return value.value === 0 || value.value === 1;
+      if (value.kind === "str") return BOOL_STRINGS.has(value.value.toLowerCase());
+      return false;
+  }
+}
+
+/**
+ * Check whether a type explicitly lists None: `Optional[...]`, `... | None`
+ * or `Literal[None]`; `any` doesn't count.
+ */
+function hasNoneOption(spec: TypeSpec): boolean {
+  if (spec.kind === "none") return true;
+  if (spec.kind === "literal") return spec.values.includes(null);
+  if (spec.kind === "union") return spec.options.some(hasNoneOption);
+  return false;
+}
+
+/**
+ * Format a literal value the way it is written in a template.
+ */
+export function formatLiteral(value: LiteralMember): string {
+  if (value === null) return "None";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (typeof value === "number") return String(value);
+  return `"${value}"`;
+}
+
+/**
+ * Normalize the different spellings of an annotation string.
+ */
+function normalize(annotation: string): string {
+  return annotation
+    .trim()
+    .replace(/<class '([\w.]+)'>/g, "$1")
+    .replace(/\b(typing|typing_extensions|builtins)\./g, "");
+}
+
+/**
+ * Split on a separator, ignoring separators inside brackets or quotes.
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "[") {
+      depth++;
+    } else if (ch === "]") {
+      depth--;
+    } else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+/**
+ * Parse a Literal[...] argument using the same rules as template literals.
+ */
+function parseLiteralArg(text: string): LiteralMember {
+  const value = classifyValue(text);
+  return value.kind === "unknown" ? text : value.value;
+}
+
+/**
+ * Check whether a value can be written as a template literal.
+ */
+export function isLiteralMember(value: unknown): value is LiteralMember {
+  return (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
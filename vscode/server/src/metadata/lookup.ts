@@ -0,0 +1,104 @@
+/**
+ * Metadata lookups shared by the handlers.
+ */
+
+import { Location } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+
+import { WireviewMetadata, ComponentMetadata } from "./types.js";
+
+// Methods every Component inherits, never event handlers
+const BASE_METHODS = new Set([
+  // Base Component methods
+  "joined",
+  "leaving",
+  "notification",
+  "mutation",
+  "params_changed",
+  "handle_hook_event",
+  "broadcast",
+  "deffer",
+  "destroy",
+  "focus_on",
+  "skip_render",
+  "force_render",
+  "freeze",
+  "dom",
+  "stream",
+  "stream_insert",
+  "stream_delete",
+  "assign_async",
+  "allow_upload",
+  "cancel_upload",
+  "consume_uploads",
+  // Pydantic methods
+  "model_copy",
+  "model_dump",
+  "model_dump_json",
+  "model_json_schema",
+  "model_parametrized_name",
+  "model_post_init",
+  "model_rebuild",
+  "model_validate",
+  "model_validate_json",
+  "model_validate_strings",
+  "model_construct",
+  "copy",
+  "dict",
+  "json",
+  "parse_obj",
+  "parse_raw",
+  "parse_file",
+  "from_orm",
+  "construct",
+  "new",
+]);
+
+/**
+ * Find a component by name (simple, FQN, or app prefix).
+ */
+export function findComponent(
+  metadata: WireviewMetadata,
+  name: string
+): ComponentMetadata | undefined {
+  // Direct lookup
+  if (metadata.components[name]) {
+    return metadata.components[name];
+  }
+
+  // FQN or app prefix lookup
+  for (const component of Object.values(metadata.components)) {
+    if (component.fqn === name || component.app_key === name) {
+      return component;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a method name is inherited from Component or Pydantic's BaseModel.
+ */
+export function isBaseMethod(name: string): boolean {
+  return BASE_METHODS.has(name);
+}
+
+/**
+ * Check if a parameter kind can be passed as a keyword argument.
+ */
+export function isKeywordParameter(kind: string): boolean {
+  return kind === "POSITIONAL_OR_KEYWORD" || kind === "KEYWORD_ONLY";
+}
+
+/**
+ * Create a location for a line of a Python file.
+ */
+export function createPythonLocation(filePath: string, lineNumber: number): Location {
+  return {
+    uri: URI.file(filePath).toString(),
+    range: {
+      start: { line: lineNumber - 1, character: 0 },
+      end: { line: lineNumber - 1, character: 0 },
+    },
+  };
+}
@@ -9,6 +9,7 @@ import * as fs from "fs";
 import * as path from "path";
 
 import { WireviewMetadata, ComponentMetadata } from "./types.js";
+import { findComponent } from "./lookup.js";
 
 export { WireviewMetadata, ComponentMetadata };
 
@@ -38,21 +39,7 @@ export class MetadataManager {
   }
 
   getComponent(name: string): ComponentMetadata | undefined {
-    if (!this.metadata) return undefined;
-
-    // Try direct lookup first
-    if (this.metadata.components[name]) {
-      return this.metadata.components[name];
-    }
-
-    // Try FQN lookup
-    for (const component of Object.values(this.metadata.components)) {
-      if (component.fqn === name || component.app_key === name) {
-        return component;
-      }
-    }
-
-    return undefined;
+    return this.metadata ? findComponent(this.metadata, name) : undefined;
   }
 
   getAllComponentNames(): string[] {
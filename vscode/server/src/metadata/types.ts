@@ -10,6 +10,8 @@ export interface FieldInfo {
   default: unknown;
   required: boolean;
   description: string | null;
+  /** Member names and values when the annotation is an Enum (optional) */
+  enum_members?: Record<string, unknown> | null;
 }
 
 export interface ParameterInfo {
@@ -29,6 +31,8 @@ export interface MethodInfo {
 export interface SlotInfo {
   required: boolean;
   doc: string;
+  /** Variables the slot passes to its fill, bound with `let:name` (optional) */
+  provides?: string[];
 }
 
 export interface ModifierInfo {
@@ -59,4 +63,6 @@ export interface WireviewMetadata {
   generated_at: string;
   components: Record<string, ComponentMetadata>;
   modifiers: Record<string, ModifierInfo>;
+  /** Template directories from Django's TEMPLATES setting, in lookup order (optional) */
+  template_dirs?: string[];
 }
@@ -0,0 +1,84 @@
+/**
+ * Per-document cache of parsed templates.
+ *
+ * Trees are keyed on URI and document version. Edits reported through
+ * `recordChanges` let the next lookup re-parse from the first changed
+ * offset instead of from the start of the document.
+ */
+
+import {
+  TextDocument,
+  TextDocumentContentChangeEvent,
+} from "vscode-languageserver-textdocument";
+
+import { TemplateParser, TagTree } from "./template.js";
+
+interface CacheEntry {
+  version: number;
+  tree: TagTree;
+  /** Version reached by the changes recorded since the tree was parsed */
+  changedVersion?: number;
+  /** First offset of the tree content touched by those changes */
+  changeOffset?: number;
+}
+
+export class ParseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private parser: TemplateParser) {}
+
+  /**
+   * Get the tag tree for the current version of a document.
+   */
+  get(document: TextDocument): TagTree {
+    const entry = this.entries.get(document.uri);
+    if (entry?.version === document.version) {
+      return entry.tree;
+    }
+
+    const content = document.getText();
+    const tree =
+      entry?.changedVersion === document.version && entry.changeOffset !== undefined
+        ? this.parser.reparse(entry.tree, content, entry.changeOffset)
+        : this.parser.parse(content);
+
+    this.entries.set(document.uri, { version: document.version, tree });
+    return tree;
+  }
+
+  /**
+   * Record incremental changes about to be applied to a document.
+   * Must be called with the document before the changes are applied.
+   */
+  recordChanges(
+    document: TextDocument,
+    changes: TextDocumentContentChangeEvent[],
+    version: number
+  ): void {
+    const entry = this.entries.get(document.uri);
+    if (!entry) return;
+
+    // Changes must continue from the cached tree
+    if ((entry.changedVersion ?? entry.version) !== document.version) {
+      this.entries.delete(document.uri);
+      return;
+    }
+
+    // Text before the earliest change position is untouched by all changes
+    let offset = entry.changeOffset ?? entry.tree.content.length;
+    for (const change of changes) {
+      const start = "range" in change ? document.offsetAt(change.range.start) : 0;
+      offset = Math.min(offset, start);
+    }
+
+    entry.changedVersion = version;
+    entry.changeOffset = offset;
+  }
+
+  /**
+   * Drop the cached tree of a closed document.
+   */
+  delete(uri: string): void {
+    this.entries.delete(uri);
+  }
+}
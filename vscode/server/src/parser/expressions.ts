@@ -0,0 +1,182 @@
+/**
+ * Django template expression scanning.
+ *
+ * Finds variable lookups in `{{ ... }}` filter expressions and in the
+ * expressions of {% if %}, {% elif %} and {% for %} tags.
+ */
+
+import { TagTree, TemplateTag } from "./template.js";
+
+export interface VariableReference {
+  /** Dotted lookup path, e.g. `item.name` */
+  path: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface ExpressionRange {
+  startOffset: number;
+  endOffset: number;
+}
+
+// String literal, filter, dotted name, number, or any other character
+const EXPRESSION_TOKEN =
+  /(["'])(?:\\.|(?!\1)[^\\])*\1?|\|\s*\w*|[A-Za-z_]\w*(?:\.\w*)*|\d[\w.]*|\S/g;
+
+const NAME = /^[A-Za-z_]/;
+
+// Operators and literals of {% if %} expressions
+const KEYWORDS = new Set(["and", "or", "not", "in", "is", "True", "False", "None"]);
+
+/**
+ * Find variable references in the expression between two offsets.
+ */
+export function findVariables(
+  content: string,
+  start: number,
+  end: number
+): VariableReference[] {
+  const references: VariableReference[] = [];
+
+  for (const token of scanExpression(content, start, end)) {
+    if (!NAME.test(token.text) || KEYWORDS.has(token.text)) continue;
+
+    // Translation call: _("text")
+    if (token.text === "_" && content[token.endOffset] === "(") continue;
+
+    references.push({
+      path: token.text,
+      startOffset: token.startOffset,
+      endOffset: token.endOffset,
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Find the variable being typed at an offset in an expression.
+ *
+ * Returns a reference with an empty path where a new operand would
+ * start, and null inside strings and filter names.
+ */
+export function findVariableAt(
+  content: string,
+  start: number,
+  end: number,
+  offset: number
+): VariableReference | null {
+  const tokens = scanExpression(content, start, end);
+
+  // The token containing the character before the cursor
+  const before = tokens.find(
+    (token) => token.startOffset < offset && offset <= token.endOffset
+  );
+
+  if (before && NAME.test(before.text)) {
+    return {
+      path: before.text,
+      startOffset: before.startOffset,
+      endOffset: before.endOffset,
+    };
+  }
+
+  // Only operators and filter argument separators start a new operand
+  if (before && !/^[:(,=<>!]$/.test(before.text)) {
+    return null;
+  }
+
+  // Cursor at the start of a name, or after whitespace or an operator
+  const next = tokens.find((token) => token.startOffset === offset);
+  if (next && NAME.test(next.text)) {
+    return {
+      path: next.text,
+      startOffset: next.startOffset,
+      endOffset: next.endOffset,
+    };
+  }
+
+  return { path: "", startOffset: offset, endOffset: offset };
+}
+
+/**
+ * Get the range of a tag's arguments that is a template expression.
+ */
+export function getExpressionRange(tag: TemplateTag): ExpressionRange | null {
+  const endOffset = tag.closed ? tag.endOffset - 2 : tag.endOffset;
+
+  switch (tag.name) {
+    case "if":
+    case "elif":
+      return { startOffset: tag.nameStartOffset + tag.name.length, endOffset };
+    case "for": {
+      // {% for x in items [reversed] %}
+      const inIndex = tag.bits.findIndex((bit) => bit.text === "in");
+      const sequence = tag.bits[inIndex + 1];
+      if (inIndex === -1 || !sequence) return null;
+
+      const last = tag.bits[tag.bits.length - 1];
+      const reversed = last.text === "reversed" && last !== sequence;
+      return {
+        startOffset: sequence.startOffset,
+        endOffset: reversed ? last.startOffset : endOffset,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get all expression ranges in a template, in document order.
+ */
+export function getExpressionRanges(tree: TagTree): ExpressionRange[] {
+  const ranges: ExpressionRange[] = [];
+
+  for (const token of tree.tokens) {
+    if (token.type === "variable") {
+      ranges.push({
+        startOffset: token.contentStartOffset,
+        endOffset: token.contentEndOffset,
+      });
+    }
+  }
+
+  for (const tag of tree.tags) {
+    const range = getExpressionRange(tag);
+    if (range) ranges.push(range);
+  }
+
+  return ranges.sort((a, b) => a.startOffset - b.startOffset);
+}
+
+interface ExpressionToken {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Split an expression into literal, filter, name and operator tokens.
+ */
+function scanExpression(
+  content: string,
+  start: number,
+  end: number
+): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  const text = content.slice(start, end);
+
+  EXPRESSION_TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = EXPRESSION_TOKEN.exec(text)) !== null) {
+    tokens.push({
+      text: match[0],
+      startOffset: start + match.index,
+      endOffset: start + match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
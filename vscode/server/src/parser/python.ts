@@ -0,0 +1,140 @@
+/**
+ * Line scanning for component Python files.
+ *
+ * Finds the extent of indented blocks and the string literals on each
+ * line, skipping comments and continuing strings and brackets across
+ * lines. This is enough to place and find code in a class without
+ * parsing Python.
+ */
+
+export interface PythonString {
+  /** Contents between the quotes, escapes left as written */
+  value: string;
+  /** Character offsets of the contents on the line */
+  start: number;
+  end: number;
+}
+
+export interface PythonLineScan {
+  /** The line without strings and comments */
+  code: string;
+  /** Single-line strings on the line */
+  strings: PythonString[];
+  /** Triple quote of a string still open at the end of the line */
+  openQuote: string | null;
+  /** Brackets still open at the end of the line */
+  depth: number;
+}
+
+/**
+ * Find the last non-blank line of the indented block starting at a line:
+ * the statement there, with its decorators, then every line indented past
+ * it. Lines continuing a string, bracket or backslash belong to their
+ * statement whatever their indent, and comment-only lines never end the block.
+ */
+export function findBlockEnd(lines: string[], startLine: number): number {
+  const baseIndent = getIndent(lines[startLine]).length;
+  let end = startLine;
+  let scan = scanPythonLine(lines[startLine], null);
+  let inDecorators = isDecorator(scan.code);
+
+  for (let i = startLine + 1; i < lines.length; i++) {
+    const line = lines[i];
+    const continued = isContinued(scan);
+    scan = scanPythonLine(line, scan);
+
+    if (continued) {
+      if (line.trim()) end = i;
+      continue;
+    }
+    if (!scan.code.trim()) {
+      // Comments belong to the block only when indented into it
+      if (line.trim() && getIndent(line).length > baseIndent) end = i;
+      continue;
+    }
+
+    // Decorators precede the definition they decorate
+    if (inDecorators) {
+      end = i;
+      inDecorators = isDecorator(scan.code);
+      continue;
+    }
+
+    if (getIndent(line).length <= baseIndent) break;
+    end = i;
+  }
+
+  return end;
+}
+
+/**
+ * Scan a line of Python, continuing the strings and brackets left open by
+ * the previous line.
+ */
+export function scanPythonLine(line: string, previous: PythonLineScan | null): PythonLineScan {
+  let openQuote = previous?.openQuote ?? null;
+  let depth = previous?.depth ?? 0;
+  let code = "";
+  const strings: PythonString[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    if (openQuote) {
+      const close = line.indexOf(openQuote, i);
+      if (close < 0) break;
+      i = close + 3;
+      openQuote = null;
+      continue;
+    }
+
+    const char = line[i];
+    if (char === "#") break;
+    if (char === '"' || char === "'") {
+      if (line.startsWith(char.repeat(3), i)) {
+        openQuote = char.repeat(3);
+        i += 3;
+        continue;
+      }
+
+      // Record a single-line string and skip past its end
+      const start = ++i;
+      while (i < line.length && line[i] !== char) {
+        i += line[i] === "\\" ? 2 : 1;
+      }
+      const end = Math.min(i, line.length);
+      strings.push({ value: line.slice(start, end), start, end });
+      i++;
+      continue;
+    }
+
+    if ("([{".includes(char)) depth++;
+    if (")]}".includes(char)) depth = Math.max(0, depth - 1);
+    code += char;
+    i++;
+  }
+
+  return { code, strings, openQuote, depth };
+}
+
+/**
+ * Check if the statement on a scanned line continues on the next line.
+ */
+function isContinued(scan: PythonLineScan): boolean {
+  return (
+    scan.openQuote !== null || scan.depth > 0 || scan.code.trimEnd().endsWith("\\")
+  );
+}
+
+/**
+ * Check if a line's code is a decorator.
+ */
+function isDecorator(code: string): boolean {
+  return code.trimStart().startsWith("@");
+}
+
+/**
+ * Get the leading whitespace of a line.
+ */
+export function getIndent(line: string): string {
+  return line.match(/^\s*/)?.[0] ?? "";
+}
@@ -0,0 +1,379 @@
+/**
+ * Enclosing component and template variable scope resolution.
+ *
+ * A position is inside a component when it is in the body of a
+ * {% component_block %} or inside an HTML element carrying a
+ * `wireview-component` attribute. Blocks come from the shared tag tree;
+ * elements are matched with an open/close stack, so closed siblings are
+ * not mistaken for parents.
+ *
+ * Template variables are in scope inside the {% for %}, {% with %} and
+ * {% fill ... let:name %} blocks binding them, and after `... as name`
+ * until the end of the enclosing context block.
+ */
+
+import { TagNode, TagTree, TemplateTag } from "./template.js";
+import { unquote } from "./values.js";
+
+export type VariableKind = "loop" | "with" | "let" | "as";
+
+export interface ScopeVariable {
+  name: string;
+  kind: VariableKind;
+  /** Tag binding the variable */
+  tag: TemplateTag;
+}
+
+/** Descriptions of how a variable was bound, for completion and hover */
+export const VARIABLE_KIND_LABELS: Record<VariableKind, string> = {
+  loop: "loop variable",
+  with: "with variable",
+  let: "slot variable",
+  as: "assigned variable",
+};
+
+export interface VariableScope {
+  variables: ScopeVariable[];
+  startOffset: number;
+  endOffset: number;
+}
+
+interface ComponentScope {
+  /** Component name as written (simple, FQN or app prefix) */
+  name: string;
+  /** Offset where the scope begins (after the opening tag) */
+  startOffset: number;
+  /** Offset where the scope ends (before the closing tag) */
+  endOffset: number;
+}
+
+// HTML elements that never have a closing tag
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Opening or closing HTML tag; quoted attribute values may contain `>`
+const HTML_TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+const COMPONENT_ATTRIBUTE = /(?:^|\s)wireview-component\s*=\s*(["'])(.*?)\1/;
+
+// Block tags that push a new template context
+const CONTEXT_BLOCKS = new Set([
+  "for",
+  "with",
+  "fill",
+  "block",
+  "blocktrans",
+  "blocktranslate",
+]);
+
+// Scopes are computed once per parsed tree
+const elementScopeCache = new WeakMap<TagTree, ComponentScope[]>();
+const variableScopeCache = new WeakMap<TagTree, VariableScope[]>();
+
+/**
+ * Find the name of the component enclosing an offset.
+ */
+export function findEnclosingComponent(
+  tree: TagTree,
+  offset: number
+): string | undefined {
+  const block = findEnclosingBlock(tree.nodes, offset);
+  const element = findEnclosingElement(getElementScopes(tree), offset);
+
+  // The innermost of the two wins
+  if (block && element) {
+    return element.startOffset > block.startOffset ? element.name : block.name;
+  }
+
+  return (block ?? element)?.name;
+}
+
+/**
+ * Find the innermost component_block whose body contains an offset.
+ */
+function findEnclosingBlock(
+  nodes: TagNode[],
+  offset: number
+): ComponentScope | undefined {
+  for (const node of nodes) {
+    if (node.tag.startOffset >= offset) break;
+
+    // Fills and Django blocks are transparent; their contents belong
+    // to the enclosing component_block
+    if (node.tag.name !== "component_block") {
+      const inner = findEnclosingBlock(node.children, offset);
+      if (inner) return inner;
+      continue;
+    }
+
+    // An unclosed block extends to the end of its parent
+    const inBody =
+      offset >= node.tag.endOffset &&
+      (!node.endTag || offset <= node.endTag.startOffset);
+    if (!inBody) continue;
+
+    const inner = findEnclosingBlock(node.children, offset);
+    if (inner) return inner;
+
+    const name = node.tag.bits[0] ? unquote(node.tag.bits[0]) : null;
+    if (!name?.value) return undefined;
+
+    return {
+      name: name.value,
+      startOffset: node.tag.endOffset,
+      endOffset: node.endTag?.startOffset ?? Infinity,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the innermost element scope containing an offset.
+ */
+function findEnclosingElement(
+  scopes: ComponentScope[],
+  offset: number
+): ComponentScope | undefined {
+  let result: ComponentScope | undefined;
+
+  for (const scope of scopes) {
+    if (scope.startOffset > offset) break;
+    if (offset <= scope.endOffset) {
+      result = scope;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the scopes of elements with a `wireview-component` attribute,
+ * in document order.
+ */
+function getElementScopes(tree: TagTree): ComponentScope[] {
+  let scopes = elementScopeCache.get(tree);
+  if (!scopes) {
+    scopes = collectElementScopes(tree);
+    elementScopeCache.set(tree, scopes);
+  }
+  return scopes;
+}
+
+/**
+ * Match HTML open and close tags to find the extent of component elements.
+ */
+function collectElementScopes(tree: TagTree): ComponentScope[] {
+  const { content } = tree;
+  if (!content.includes("wireview-component")) return [];
+
+  const comments = tree.tokens.filter((token) => token.type === "comment");
+  const scopes: ComponentScope[] = [];
+  const stack: { tagName: string; scope?: ComponentScope }[] = [];
+  let commentIndex = 0;
+
+  HTML_TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = HTML_TAG.exec(content)) !== null) {
+    // Skip tags inside template comments
+    while (
+      commentIndex < comments.length &&
+      comments[commentIndex].endOffset <= match.index
+    ) {
+      commentIndex++;
+    }
+    const comment = comments[commentIndex];
+    if (comment && comment.startOffset <= match.index) {
+      HTML_TAG.lastIndex = comment.endOffset;
+      continue;
+    }
+
+    const [text, closing, rawName, attributes] = match;
+    const tagName = rawName.toLowerCase();
+
+    if (closing) {
+      // Close the nearest matching element, and any left open inside it
+      let index = stack.length - 1;
+      while (index >= 0 && stack[index].tagName !== tagName) index--;
+      if (index === -1) continue;
+
+      for (let i = index; i < stack.length; i++) {
+        const scope = stack[i].scope;
+        if (scope && scope.endOffset === Infinity) {
+          scope.endOffset = match.index;
+        }
+      }
+      stack.length = index;
+      continue;
+    }
+
+    const attribute = attributes.match(COMPONENT_ATTRIBUTE);
+    const selfClosing = text.endsWith("/>") || VOID_ELEMENTS.has(tagName);
+
+    if (attribute && attribute[2] && !selfClosing) {
+      const scope: ComponentScope = {
+        name: attribute[2],
+        startOffset: match.index + text.length,
+        endOffset: Infinity,
+      };
+      scopes.push(scope);
+      stack.push({ tagName, scope });
+    } else if (!selfClosing) {
+      stack.push({ tagName });
+    }
+  }
+
+  return scopes;
+}
+
+/**
+ * Find the template variables bound at an offset, innermost first.
+ */
+export function findVariablesInScope(
+  tree: TagTree,
+  offset: number
+): ScopeVariable[] {
+  const variables: ScopeVariable[] = [];
+
+  for (const scope of getVariableScopes(tree)) {
+    if (scope.startOffset > offset) break;
+    if (offset <= scope.endOffset) {
+      variables.unshift(...scope.variables);
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Get the variable scopes of a template, ordered by start offset.
+ */
+export function getVariableScopes(tree: TagTree): VariableScope[] {
+  let scopes = variableScopeCache.get(tree);
+  if (!scopes) {
+    scopes = collectVariableScopes(tree);
+    variableScopeCache.set(tree, scopes);
+  }
+  return scopes;
+}
+
+/**
+ * Find where the variables bound by blocks and `as` are visible.
+ */
+function collectVariableScopes(tree: TagTree): VariableScope[] {
+  const scopes: VariableScope[] = [];
+  const end = tree.content.length;
+  addVariableScopes(tree.nodes, end, end, scopes);
+  return scopes.sort((a, b) => a.startOffset - b.startOffset);
+}
+
+/**
+ * Add the scopes bound by a list of sibling nodes and their children.
+ * `parentEnd` is where the enclosing block's body ends, and `contextEnd`
+ * where the enclosing context block's body ends.
+ */
+function addVariableScopes(
+  nodes: TagNode[],
+  parentEnd: number,
+  contextEnd: number,
+  scopes: VariableScope[]
+): void {
+  for (const node of nodes) {
+    const { tag } = node;
+
+    // An unclosed block extends to the end of its parent
+    const bodyEnd = node.endTag ? node.endTag.startOffset : parentEnd;
+
+    if (CONTEXT_BLOCKS.has(tag.name)) {
+      const variables = getBlockVariables(tag);
+      if (variables.length > 0) {
+        // Loop variables are not bound in the {% empty %} clause
+        const empty =
+          tag.name === "for"
+            ? node.children.find((child) => child.tag.name === "empty")
+            : undefined;
+        scopes.push({
+          variables,
+          startOffset: tag.endOffset,
+          endOffset: empty ? empty.tag.startOffset : bodyEnd,
+        });
+      }
+
+      addVariableScopes(node.children, bodyEnd, bodyEnd, scopes);
+      continue;
+    }
+
+    const asIndex = tag.bits.findIndex((bit) => bit.text === "as");
+    const nameBit = asIndex !== -1 ? tag.bits[asIndex + 1] : undefined;
+    if (nameBit) {
+      scopes.push({
+        variables: [{ name: nameBit.text, kind: "as", tag }],
+        startOffset: tag.endOffset,
+        endOffset: contextEnd,
+      });
+    }
+
+    addVariableScopes(node.children, bodyEnd, contextEnd, scopes);
+  }
+}
+
+/**
+ * Get the variables a context-pushing block tag binds in its body.
+ */
+function getBlockVariables(tag: TemplateTag): ScopeVariable[] {
+  const names: [string, VariableKind][] = [];
+
+  switch (tag.name) {
+    case "for":
+      // {% for key, value in items %}
+      for (const bit of tag.bits) {
+        if (bit.text === "in") break;
+        for (const name of bit.text.split(",")) {
+          if (name) names.push([name, "loop"]);
+        }
+      }
+      names.push(["forloop", "loop"]);
+      break;
+    case "with": {
+      // {% with total=items|length %} or {% with items|length as total %}
+      const asIndex = tag.bits.findIndex((bit) => bit.text === "as");
+      if (asIndex !== -1 && tag.bits[asIndex + 1]) {
+        names.push([tag.bits[asIndex + 1].text, "with"]);
+      }
+      for (const bit of tag.bits) {
+        if (bit.key) names.push([bit.key, "with"]);
+      }
+      break;
+    }
+    case "blocktrans":
+    case "blocktranslate":
+      // {% blocktrans with name=user.name count n=items|length %}
+      for (const bit of tag.bits) {
+        if (bit.key) names.push([bit.key, "with"]);
+      }
+      break;
+    case "fill":
+      // {% fill body let:item %}
+      for (const bit of tag.bits) {
+        const match = bit.text.match(/^let:(\w+)$/);
+        if (match) names.push([match[1], "let"]);
+      }
+      break;
+  }
+
+  return names.map(([name, kind]) => ({ name, kind, tag }));
+}
@@ -1,10 +1,19 @@
 /**
  * Django template parser for wireview tags.
  *
- * Parses template content to identify wireview-specific tags and
- * determine cursor context for autocompletion.
+ * Builds a ranged tag tree from the tokenizer output, shared by all
+ * handlers, and determines cursor context for autocompletion.
  */
 
+import { QuotedValue, unquote } from "./values.js";
+import { TemplateToken, getTagName, tokenize } from "./tokenizer.js";
+import {
+  ScopeVariable,
+  findEnclosingComponent,
+  findVariablesInScope,
+} from "./scopes.js";
+import { findVariableAt, getExpressionRange } from "./expressions.js";
+
 export type CursorPosition =
   | "component_name"
   | "attribute_name"
@@ -12,51 +21,485 @@ export type CursorPosition =
   | "handler_name"
   | "event_name"
   | "modifier"
+  | "handler_argument"
   | "slot_name"
+  | "let_binding"
+  | "variable"
   | "outside";
 
+export type WireviewTagType =
+  | "component"
+  | "component_block"
+  | "on"
+  | "fill"
+  | "render_slot";
+
 export interface CursorContext {
   inWireviewTag: boolean;
-  tagType: "component" | "component_block" | "on" | "fill" | "render_slot" | null;
+  tagType: WireviewTagType | null;
   position: CursorPosition;
   componentName?: string;
+  /** Text of the value under the cursor, up to the cursor */
   currentValue?: string;
+  /** Complete text of the value under the cursor */
+  fullValue?: string;
+  /** Whether the value under the cursor is a quoted string */
+  quoted?: boolean;
   attributeName?: string;
   eventName?: string;
+  handlerName?: string;
+  slotName?: string;
+  /** Component rendering the template, for variables in attribute values */
+  owner?: string;
+  /** Template variables bound at the cursor, innermost first */
+  variables?: ScopeVariable[];
 }
 
-interface TagMatch {
-  type: string;
+/**
+ * A whitespace-separated argument inside a template tag.
+ * Offsets are absolute positions in the document.
+ */
+export interface TagBit {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  /** Keyword name for `key=value` arguments */
+  key?: string;
+  /** Value part of a `key=value` argument */
+  value?: TagBit;
+}
+
+/**
+ * A `{% ... %}` tag found in a template.
+ */
+export interface TemplateTag {
+  name: string;
   startOffset: number;
   endOffset: number;
+  nameStartOffset: number;
+  bits: TagBit[];
+  /** False if the closing `%}` is missing */
+  closed: boolean;
+}
+
+/**
+ * A node in the tag tree. Block tags (component_block, fill, and Django
+ * blocks like for, with or block) hold their closing tag and the tags
+ * between as children. Branch tags like {% else %} or {% empty %} are
+ * children of their block.
+ */
+export interface TagNode {
+  tag: TemplateTag;
+  endTag?: TemplateTag;
+  children: TagNode[];
+}
+
+/**
+ * A problem with block tag nesting found while building the tag tree.
+ *
+ * - `unclosed`: `tag` is a block that is never closed
+ * - `mismatched`: end `tag` was reached while `openTag` was still open
+ * - `unexpected`: end `tag` has no matching opening tag
+ * - `misplaced`: fill `tag` is not inside a component_block, other than
+ *   through Django blocks (`openTag` is the wireview block it was found
+ *   in, if any)
+ *
+ * Only problems involving a wireview tag are reported; Django reports
+ * its own.
+ */
+export interface TagStructureError {
+  kind: "unclosed" | "mismatched" | "unexpected" | "misplaced";
+  tag: TemplateTag;
+  openTag?: TemplateTag;
+}
+
+/**
+ * The tag tree of a template, with any nesting problems.
+ */
+export interface TagTree {
   content: string;
+  tokens: TemplateToken[];
+  /** All tags in document order */
+  tags: TemplateTag[];
+  nodes: TagNode[];
+  errors: TagStructureError[];
+}
+
+// Wireview block tags, which are blocks whether or not they are closed
+const BLOCK_TAGS = new Set(["component_block", "fill"]);
+
+const WIREVIEW_TAGS = new Set<string>([
+  "component",
+  "component_block",
+  "on",
+  "fill",
+  "render_slot",
+]);
+
+/**
+ * Get the literal component name of a component or component_block tag.
+ * Returns null for variables, which are resolved at runtime.
+ */
+export function getComponentName(tag: TemplateTag): QuotedValue | null {
+  const nameBit = tag.bits[0];
+  if (!nameBit) return null;
+
+  const name = unquote(nameBit);
+  if (!name || !name.value) return null;
+
+  return name;
+}
+
+/**
+ * Get the literal handler name of an {% on %} tag.
+ */
+export function getHandlerName(tag: TemplateTag): QuotedValue | null {
+  const handlerBit = tag.bits[1];
+  if (!handlerBit || handlerBit.key) return null;
+
+  const handler = unquote(handlerBit);
+  if (!handler || !handler.value) return null;
+
+  return handler;
+}
+
+/**
+ * Get the slot name of a fill or render_slot tag. Slot names may be
+ * written bare or quoted.
+ */
+export function getSlotName(tag: TemplateTag): QuotedValue | null {
+  const slotBit = tag.bits[0];
+  if (!slotBit || slotBit.key) return null;
+
+  return (
+    unquote(slotBit) ?? {
+      value: slotBit.text,
+      startOffset: slotBit.startOffset,
+      endOffset: slotBit.endOffset,
+    }
+  );
+}
+
+/**
+ * Get the variables bound by `let:name` arguments of a {% fill %} tag,
+ * with the offsets of each name.
+ */
+export function getLetBindings(tag: TemplateTag): QuotedValue[] {
+  return tag.bits
+    .slice(1)
+    .filter((bit) => /^let:\w+$/.test(bit.text))
+    .map((bit) => ({
+      value: bit.text.slice(4),
+      startOffset: bit.startOffset + 4,
+      endOffset: bit.endOffset,
+    }));
+}
+
+/**
+ * Collect the {% fill %} nodes belonging to a component_block body,
+ * without descending into nested component blocks.
+ */
+export function collectFills(nodes: TagNode[]): TagNode[] {
+  const fills: TagNode[] = [];
+
+  for (const node of nodes) {
+    if (node.tag.name === "fill") {
+      fills.push(node);
+    } else if (node.tag.name !== "component_block") {
+      fills.push(...collectFills(node.children));
+    }
+  }
+
+  return fills;
 }
 
 export class TemplateParser {
-  // Regex patterns for wireview tags
-  private static readonly TAG_START = /\{%\s*/g;
-  private static readonly TAG_END = /\s*%\}/g;
+  /**
+   * Parse a template into its tokens and tag tree.
+   */
+  parse(content: string): TagTree {
+    const tokens = tokenize(content);
+    return this.buildTagTree(content, tokens, this.createTags(content, tokens));
+  }
+
+  /**
+   * Re-parse a template after an edit. Tokens and tags of the previous
+   * tree that lie before `changeOffset`, the first offset touched by the
+   * edit, are reused; the rest of the template is parsed again.
+   */
+  reparse(previous: TagTree, content: string, changeOffset: number): TagTree {
+    const index = this.findRestartIndex(previous, changeOffset);
+    if (index <= 0) {
+      return this.parse(content);
+    }
+
+    const restartOffset = previous.tokens[index].startOffset;
+    const newTokens = tokenize(content, restartOffset);
+    const tokens = previous.tokens.slice(0, index).concat(newTokens);
+
+    let tagCount = previous.tags.length;
+    while (tagCount > 0 && previous.tags[tagCount - 1].startOffset >= restartOffset) {
+      tagCount--;
+    }
+    const tags = previous.tags
+      .slice(0, tagCount)
+      .concat(this.createTags(content, newTokens));
+
+    return this.buildTagTree(content, tokens, tags);
+  }
+
+  /**
+   * Find the last tag token starting before an edit, from which the
+   * tokenizer can safely resume. Returns 0 or less to parse from the start.
+   */
+  private findRestartIndex(previous: TagTree, changeOffset: number): number {
+    const { content, tokens } = previous;
+
+    // An unterminated comment may be closed by the edit
+    if (tokens.some((token) => token.type === "comment" && !token.closed)) {
+      return 0;
+    }
+
+    // Text tokens may be verbatim contents, so resume at a tag whose
+    // opening delimiter is untouched (it also ends any unclosed tag before it)
+    let index = tokens.length - 1;
+    while (
+      index > 0 &&
+      (tokens[index].startOffset + 2 > changeOffset || tokens[index].type === "text")
+    ) {
+      index--;
+    }
+
+    // Resuming at {% endverbatim %} would leave verbatim mode off; the edit
+    // may even rename it. Resume at the opening {% verbatim %} instead,
+    // the first tag token before its text contents.
+    const token = tokens[index];
+    if (index > 0 && token.type === "block" && getTagName(content, token) === "endverbatim") {
+      index--;
+      while (index > 0 && tokens[index].type === "text") {
+        index--;
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Create tags from the block tokens of a template.
+   */
+  private createTags(content: string, tokens: TemplateToken[]): TemplateTag[] {
+    const tags: TemplateTag[] = [];
+
+    for (const token of tokens) {
+      if (token.type !== "block") continue;
+
+      const bits = this.splitBits(
+        content,
+        token.contentStartOffset,
+        token.contentEndOffset
+      );
+      if (bits.length === 0) continue;
+
+      const [nameBit, ...rest] = bits;
+      tags.push({
+        name: nameBit.text,
+        startOffset: token.startOffset,
+        endOffset: token.endOffset,
+        nameStartOffset: nameBit.startOffset,
+        bits: rest,
+        closed: token.closed,
+      });
+    }
+
+    return tags;
+  }
+
+  /**
+   * Nest tags into a tree by pairing block tags with their closing tags.
+   */
+  private buildTagTree(
+    content: string,
+    tokens: TemplateToken[],
+    tags: TemplateTag[]
+  ): TagTree {
+    const nodes: TagNode[] = [];
+    const errors: TagStructureError[] = [];
+    const stack: TagNode[] = [];
+    const blocks = findBlockTags(tags);
+
+    for (const tag of tags) {
+      const node: TagNode = { tag, children: [] };
+      const parent = stack.length > 0 ? stack[stack.length - 1] : undefined;
+      const siblings = parent ? parent.children : nodes;
+
+      if (blocks.has(tag)) {
+        if (tag.name === "fill") {
+          const block = this.findWireviewBlock(stack);
+          if (block?.tag.name !== "component_block") {
+            errors.push({ kind: "misplaced", tag, openTag: block?.tag });
+          }
+        }
+
+        siblings.push(node);
+        stack.push(node);
+        continue;
+      }
+
+      // Close the nearest open block this tag ends
+      const openIndex = this.findOpenBlock(stack, tag.name);
+      if (openIndex !== -1) {
+        // Blocks opened after it were never closed
+        for (let i = stack.length - 1; i > openIndex; i--) {
+          if (isWireviewBlock(tag) || isWireviewBlock(stack[i].tag)) {
+            errors.push({ kind: "mismatched", tag, openTag: stack[i].tag });
+          }
+        }
+
+        stack[openIndex].endTag = tag;
+        stack.length = openIndex;
+        continue;
+      }
+
+      if (isWireviewBlock(tag)) {
+        errors.push({ kind: "unexpected", tag });
+        continue;
+      }
+
+      siblings.push(node);
+    }
+
+    for (const node of stack) {
+      if (BLOCK_TAGS.has(node.tag.name)) {
+        errors.push({ kind: "unclosed", tag: node.tag });
+      }
+    }
+
+    return { content, tokens, tags, nodes, errors };
+  }
+
+  /**
+   * Find the innermost open block closed by the given end tag name.
+   */
+  private findOpenBlock(stack: TagNode[], endTagName: string): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (`end${stack[i].tag.name}` === endTagName) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Find the innermost open wireview block, looking through Django blocks.
+   */
+  private findWireviewBlock(stack: TagNode[]): TagNode | undefined {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (BLOCK_TAGS.has(stack[i].tag.name)) {
+        return stack[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Split tag contents on whitespace, keeping quoted strings together
+   * (the same rules as Django's smart_split).
+   */
+  private splitBits(content: string, start: number, end: number): TagBit[] {
+    const bits: TagBit[] = [];
+    let i = start;
+
+    while (i < end) {
+      while (i < end && /\s/.test(content[i])) i++;
+      if (i >= end) break;
+
+      const bitStart = i;
+      let quote: string | null = null;
+
+      while (i < end) {
+        const ch = content[i];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === "'" || ch === '"') {
+          quote = ch;
+        } else if (/\s/.test(ch)) {
+          break;
+        }
+        i++;
+      }
+
+      bits.push(this.createBit(content.slice(bitStart, i), bitStart));
+    }
+
+    return bits;
+  }
+
+  /**
+   * Create a tag bit, splitting `key=value` arguments.
+   */
+  private createBit(text: string, startOffset: number): TagBit {
+    const bit: TagBit = {
+      text,
+      startOffset,
+      endOffset: startOffset + text.length,
+    };
+
+    const kwargMatch = text.match(/^(\w+)=(.*)$/s);
+    if (kwargMatch) {
+      const valueStart = startOffset + kwargMatch[1].length + 1;
+      bit.key = kwargMatch[1];
+      bit.value = {
+        text: kwargMatch[2],
+        startOffset: valueStart,
+        endOffset: valueStart + kwargMatch[2].length,
+      };
+    }
+
+    return bit;
+  }
 
   /**
    * Get the cursor context at a given offset in the template.
+   *
+   * `owner` is the component rendering this template, used for handlers
+   * and slots outside any enclosing component.
    */
-  getCursorContext(content: string, offset: number): CursorContext {
-    // Find enclosing tag
-    const tag = this.findEnclosingTag(content, offset);
+  getCursorContext(tree: TagTree, offset: number, owner?: string): CursorContext {
+    const tag = this.findTagAt(tree.tags, offset);
 
     if (!tag) {
+      const token = this.findVariableTokenAt(tree.tokens, offset);
+      if (token) {
+        return this.getVariableContext(
+          tree,
+          token.contentStartOffset,
+          token.contentEndOffset,
+          offset,
+          owner
+        );
+      }
+
       // Check if we're inside a component's template (for {% on %} context)
-      const componentContext = this.findComponentContext(content, offset);
       return {
         inWireviewTag: false,
         tagType: null,
         position: "outside",
-        componentName: componentContext,
+        componentName: findEnclosingComponent(tree, offset) ?? owner,
       };
     }
 
-    const tagType = this.detectTagType(tag.content);
-    if (!tagType) {
+    const expression = getExpressionRange(tag);
+    if (expression && offset >= expression.startOffset) {
+      return this.getVariableContext(
+        tree,
+        expression.startOffset,
+        expression.endOffset,
+        offset,
+        owner
+      );
+    }
+
+    if (!WIREVIEW_TAGS.has(tag.name)) {
       return {
         inWireviewTag: false,
         tagType: null,
@@ -64,170 +507,190 @@ export class TemplateParser {
       };
     }
 
-    const relativeOffset = offset - tag.startOffset;
+    const tagType = tag.name as WireviewTagType;
+
+    // Cursor on the tag keyword itself
+    if (offset <= tag.nameStartOffset + tag.name.length) {
+      return {
+        inWireviewTag: true,
+        tagType,
+        position: "outside",
+      };
+    }
+
+    const { index, bit } = this.findBitAt(tag, offset);
 
     switch (tagType) {
       case "component":
-      case "component_block":
-        return this.parseComponentTag(tag.content, relativeOffset, tagType);
+      case "component_block": {
+        const context = this.getComponentTagContext(tag, tagType, index, bit, offset);
+
+        // Attribute values can reference variables of this template
+        if (context.position === "attribute_value") {
+          context.owner = owner;
+          context.variables = findVariablesInScope(tree, tag.startOffset);
+        }
+        return context;
+      }
       case "on":
-        return this.parseOnTag(tag.content, relativeOffset);
+        return {
+          ...this.getOnTagContext(tag, index, bit, offset),
+          componentName: findEnclosingComponent(tree, tag.startOffset) ?? owner,
+        };
       case "fill":
-        return this.parseFillTag(tag.content, relativeOffset);
+        // Fills name slots of the enclosing block, never the owner
+        return {
+          ...this.getSlotTagContext(tag, tagType, index, bit, offset),
+          componentName: findEnclosingComponent(tree, tag.startOffset),
+        };
       case "render_slot":
-        return this.parseRenderSlotTag(tag.content, relativeOffset);
-      default:
         return {
-          inWireviewTag: false,
-          tagType: null,
-          position: "outside",
+          ...this.getSlotTagContext(tag, tagType, index, bit, offset),
+          componentName: findEnclosingComponent(tree, tag.startOffset) ?? owner,
         };
     }
   }
 
   /**
-   * Find the Django template tag enclosing the given offset.
+   * Find the tag whose contents contain the given offset.
    */
-  private findEnclosingTag(content: string, offset: number): TagMatch | null {
-    // Find all {% ... %} blocks
-    let startIndex = -1;
-    let depth = 0;
-
-    for (let i = 0; i < content.length; i++) {
-      if (content.slice(i, i + 2) === "{%") {
-        if (depth === 0) {
-          startIndex = i;
-        }
-        depth++;
-      } else if (content.slice(i, i + 2) === "%}") {
-        depth--;
-        if (depth === 0 && startIndex !== -1) {
-          const endIndex = i + 2;
-          if (offset >= startIndex && offset <= endIndex) {
-            return {
-              type: "",
-              startOffset: startIndex,
-              endOffset: endIndex,
-              content: content.slice(startIndex, endIndex),
-            };
-          }
-          startIndex = -1;
-        }
+  private findTagAt(tags: TemplateTag[], offset: number): TemplateTag | null {
+    // Binary search for the last tag starting before the offset
+    let low = 0;
+    let high = tags.length - 1;
+    let candidate: TemplateTag | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (tags[mid].startOffset < offset) {
+        candidate = tags[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
       }
     }
 
-    return null;
+    if (!candidate) return null;
+
+    const contentEnd = candidate.closed ? candidate.endOffset - 2 : candidate.endOffset;
+    return offset <= contentEnd ? candidate : null;
   }
 
   /**
-   * Detect the type of wireview tag.
+   * Find the `{{ ... }}` token whose contents contain the given offset.
    */
-  private detectTagType(
-    tagContent: string
-  ): "component" | "component_block" | "on" | "fill" | "render_slot" | null {
-    const match = tagContent.match(/\{%\s*(\w+)/);
-    if (!match) return null;
-
-    const tagName = match[1];
-    if (tagName === "component") return "component";
-    if (tagName === "component_block") return "component_block";
-    if (tagName === "on") return "on";
-    if (tagName === "fill") return "fill";
-    if (tagName === "render_slot") return "render_slot";
-
-    return null;
+  private findVariableTokenAt(
+    tokens: TemplateToken[],
+    offset: number
+  ): TemplateToken | null {
+    // Binary search for the last token starting before the offset
+    let low = 0;
+    let high = tokens.length - 1;
+    let candidate: TemplateToken | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (tokens[mid].startOffset < offset) {
+        candidate = tokens[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (candidate?.type !== "variable") return null;
+
+    const inContent =
+      offset >= candidate.contentStartOffset && offset <= candidate.contentEndOffset;
+    return inContent ? candidate : null;
   }
 
   /**
-   * Parse a component or component_block tag.
+   * Get the context inside a template expression. Variables are looked
+   * up on the template's owner, not on enclosing component blocks.
    */
-  private parseComponentTag(
-    content: string,
-    relativeOffset: number,
-    tagType: "component" | "component_block"
+  private getVariableContext(
+    tree: TagTree,
+    start: number,
+    end: number,
+    offset: number,
+    owner?: string
   ): CursorContext {
-    // Pattern: {% component 'Name' attr=value %}
-    // Pattern: {% component_block "Name" attr=value %}
+    const reference = findVariableAt(tree.content, start, end, offset);
+    const firstSegment = reference?.path.split(".")[0] ?? "";
 
-    const tagKeyword = tagType === "component" ? "component" : "component_block";
-    const afterKeyword = content.indexOf(tagKeyword) + tagKeyword.length;
-
-    // Check if we're in the component name
-    const nameMatch = content.match(
-      new RegExp(`\\{%\\s*${tagKeyword}\\s+['"]([^'"]*)['"\\s]?`)
-    );
-
-    if (nameMatch) {
-      const nameStart = content.indexOf(nameMatch[0]) + nameMatch[0].indexOf(nameMatch[1]);
-      const nameEnd = nameStart + nameMatch[1].length;
-
-      // Check if cursor is within the component name
-      if (relativeOffset >= nameStart && relativeOffset <= nameEnd + 1) {
-        return {
-          inWireviewTag: true,
-          tagType,
-          position: "component_name",
-          currentValue: nameMatch[1].slice(0, relativeOffset - nameStart),
-        };
-      }
-
-      // After the component name, we're in attribute territory
-      if (relativeOffset > nameEnd) {
-        return this.parseAttributeContext(content, relativeOffset, nameMatch[1], tagType);
-      }
-    }
-
-    // Before or at component name
-    const beforeName = content.slice(0, relativeOffset);
-    if (beforeName.match(new RegExp(`\\{%\\s*${tagKeyword}\\s+['"]?$`))) {
+    // Only the first segment of a dotted lookup is a context variable
+    if (!reference || offset > reference.startOffset + firstSegment.length) {
       return {
-        inWireviewTag: true,
-        tagType,
-        position: "component_name",
-        currentValue: "",
+        inWireviewTag: false,
+        tagType: null,
+        position: "outside",
       };
     }
 
     return {
-      inWireviewTag: true,
-      tagType,
-      position: "attribute_name",
+      inWireviewTag: false,
+      tagType: null,
+      position: "variable",
+      componentName: owner,
+      currentValue: reference.path.slice(0, offset - reference.startOffset),
+      fullValue: firstSegment,
+      variables: findVariablesInScope(tree, offset),
     };
   }
 
   /**
-   * Parse attribute context (attr=value).
+   * Find the argument under the cursor. `index` is the position of the
+   * argument; `bit` is undefined when the cursor is in whitespace where
+   * a new argument would start.
    */
-  private parseAttributeContext(
-    content: string,
-    relativeOffset: number,
-    componentName: string,
-    tagType: "component" | "component_block"
-  ): CursorContext {
-    const beforeCursor = content.slice(0, relativeOffset);
+  private findBitAt(
+    tag: TemplateTag,
+    offset: number
+  ): { index: number; bit?: TagBit } {
+    for (let i = 0; i < tag.bits.length; i++) {
+      const bit = tag.bits[i];
+      if (offset < bit.startOffset) return { index: i };
+      if (offset <= bit.endOffset) return { index: i, bit };
+    }
 
-    // Check if we're after an = (attribute value)
-    const eqMatch = beforeCursor.match(/(\w+)\s*=\s*['"]?([^'"\s]*)$/);
-    if (eqMatch) {
+    return { index: tag.bits.length };
+  }
+
+  /**
+   * Get the context inside a component or component_block tag.
+   * Pattern: {% component 'Name' attr=value %}
+   */
+  private getComponentTagContext(
+    tag: TemplateTag,
+    tagType: "component" | "component_block",
+    index: number,
+    bit: TagBit | undefined,
+    offset: number
+  ): CursorContext {
+    if (index === 0) {
       return {
         inWireviewTag: true,
         tagType,
-        position: "attribute_value",
-        componentName,
-        attributeName: eqMatch[1],
-        currentValue: eqMatch[2],
+        position: "component_name",
+        currentValue: bit ? stripQuotes(textBefore(bit, offset)) : "",
+        fullValue: bit ? stripQuotes(bit.text) : "",
       };
     }
 
-    // Check if we're typing an attribute name
-    const attrMatch = beforeCursor.match(/\s(\w*)$/);
-    if (attrMatch) {
+    const componentName = stripQuotes(tag.bits[0].text);
+
+    // Check if we're after an = (attribute value)
+    if (bit?.key && bit.value && offset >= bit.value.startOffset) {
       return {
         inWireviewTag: true,
         tagType,
-        position: "attribute_name",
+        position: "attribute_value",
         componentName,
-        currentValue: attrMatch[1],
+        attributeName: bit.key,
+        currentValue: stripQuotes(textBefore(bit.value, offset)),
+        fullValue: stripQuotes(bit.value.text),
+        quoted: /^["']/.test(bit.value.text),
       };
     }
 
@@ -236,189 +699,172 @@ export class TemplateParser {
       tagType,
       position: "attribute_name",
       componentName,
+      currentValue: bit ? textBefore(bit, offset) : "",
+      fullValue: bit ? bit.key ?? bit.text : "",
     };
   }
 
   /**
-   * Parse an {% on %} event tag.
+   * Get the context inside an {% on %} event tag.
+   * Pattern: {% on 'event.modifier' 'handler' attr=value %}
    */
-  private parseOnTag(content: string, relativeOffset: number): CursorContext {
-    // Pattern: {% on 'event.modifier' 'handler' attr=value %}
-
-    const beforeCursor = content.slice(0, relativeOffset);
-
-    // Check for event name position (first quoted string)
-    const eventStartMatch = beforeCursor.match(/\{%\s*on\s+['"]$/);
-    if (eventStartMatch) {
-      return {
-        inWireviewTag: true,
-        tagType: "on",
-        position: "event_name",
-        currentValue: "",
-      };
-    }
-
-    // Check if we're in the event string with modifiers
-    const eventMatch = content.match(/\{%\s*on\s+['"]([^'"]*)['"]/);
-    if (eventMatch) {
-      const eventStart =
-        content.indexOf(eventMatch[0]) +
-        eventMatch[0].indexOf(eventMatch[1]);
-      const eventEnd = eventStart + eventMatch[1].length;
-
-      if (relativeOffset >= eventStart && relativeOffset <= eventEnd) {
-        const eventValue = eventMatch[1];
-        const cursorInEvent = relativeOffset - eventStart;
-
-        // Check if after a dot (modifier)
-        if (eventValue.lastIndexOf(".") < cursorInEvent && eventValue.includes(".")) {
-          return {
-            inWireviewTag: true,
-            tagType: "on",
-            position: "modifier",
-            eventName: eventValue.split(".")[0],
-            currentValue: eventValue.slice(eventValue.lastIndexOf(".") + 1, cursorInEvent),
-          };
-        }
+  private getOnTagContext(
+    tag: TemplateTag,
+    index: number,
+    bit: TagBit | undefined,
+    offset: number
+  ): CursorContext {
+    const eventValue = tag.bits[0] ? stripQuotes(tag.bits[0].text) : "";
+    const eventName = eventValue.split(".")[0];
 
-        return {
-          inWireviewTag: true,
-          tagType: "on",
-          position: "event_name",
-          currentValue: eventValue.slice(0, cursorInEvent),
-        };
-      }
+    if (index === 0) {
+      const before = bit ? stripQuotes(textBefore(bit, offset)) : "";
+      const lastDot = before.lastIndexOf(".");
 
-      // After event string, check for handler
-      const handlerStartMatch = beforeCursor.match(/\{%\s*on\s+['"][^'"]*['"]\s+['"]$/);
-      if (handlerStartMatch) {
+      // After a dot, we're typing a modifier
+      if (lastDot !== -1) {
+        const segmentEnd = eventValue.indexOf(".", before.length);
         return {
           inWireviewTag: true,
           tagType: "on",
-          position: "handler_name",
-          eventName: eventMatch[1].split(".")[0],
-          currentValue: "",
+          position: "modifier",
+          eventName,
+          currentValue: before.slice(lastDot + 1),
+          fullValue: eventValue.slice(
+            lastDot + 1,
+            segmentEnd === -1 ? eventValue.length : segmentEnd
+          ),
         };
       }
 
-      // Check if we're in the handler string
-      const handlerMatch = content.match(
-        /\{%\s*on\s+['"][^'"]*['"]\s+['"]([^'"]*)['"]?/
-      );
-      if (handlerMatch) {
-        const fullMatch = handlerMatch[0];
-        const handlerStart =
-          content.indexOf(fullMatch) +
-          fullMatch.lastIndexOf(handlerMatch[1]);
-        const handlerEnd = handlerStart + handlerMatch[1].length;
-
-        if (relativeOffset >= handlerStart && relativeOffset <= handlerEnd + 1) {
-          return {
-            inWireviewTag: true,
-            tagType: "on",
-            position: "handler_name",
-            eventName: eventMatch[1].split(".")[0],
-            currentValue: handlerMatch[1].slice(0, relativeOffset - handlerStart),
-          };
-        }
-      }
+      return {
+        inWireviewTag: true,
+        tagType: "on",
+        position: "event_name",
+        currentValue: before,
+        fullValue: eventName,
+      };
     }
 
-    return {
-      inWireviewTag: true,
-      tagType: "on",
-      position: "event_name",
-    };
-  }
-
-  /**
-   * Parse a {% fill %} slot tag.
-   */
-  private parseFillTag(content: string, relativeOffset: number): CursorContext {
-    // Pattern: {% fill slotname %} or {% fill slotname let:var %}
+    if (index === 1 && !bit?.key) {
+      return {
+        inWireviewTag: true,
+        tagType: "on",
+        position: "handler_name",
+        eventName,
+        currentValue: bit ? stripQuotes(textBefore(bit, offset)) : "",
+        fullValue: bit ? stripQuotes(bit.text) : "",
+      };
+    }
 
-    const beforeCursor = content.slice(0, relativeOffset);
+    const handlerBit = tag.bits[1];
+    const handlerName =
+      handlerBit && !handlerBit.key ? stripQuotes(handlerBit.text) : undefined;
 
-    // Check if we're in the slot name
-    const slotMatch = beforeCursor.match(/\{%\s*fill\s+(\w*)$/);
-    if (slotMatch) {
+    // Argument values are template expressions
+    if (bit?.key && bit.value && offset >= bit.value.startOffset) {
       return {
         inWireviewTag: true,
-        tagType: "fill",
-        position: "slot_name",
-        currentValue: slotMatch[1],
+        tagType: "on",
+        position: "outside",
+        eventName,
+        handlerName,
       };
     }
 
     return {
       inWireviewTag: true,
-      tagType: "fill",
-      position: "slot_name",
+      tagType: "on",
+      position: "handler_argument",
+      eventName,
+      handlerName,
+      currentValue: bit ? textBefore(bit, offset) : "",
+      fullValue: bit ? bit.key ?? bit.text : "",
     };
   }
 
   /**
-   * Parse a {% render_slot %} tag.
+   * Get the context inside a {% fill %} or {% render_slot %} tag.
+   * Pattern: {% fill slotname let:var %} or {% render_slot "name" %}
    */
-  private parseRenderSlotTag(
-    content: string,
-    relativeOffset: number
+  private getSlotTagContext(
+    tag: TemplateTag,
+    tagType: "fill" | "render_slot",
+    index: number,
+    bit: TagBit | undefined,
+    offset: number
   ): CursorContext {
-    // Pattern: {% render_slot %} or {% render_slot "name" %}
-
-    const beforeCursor = content.slice(0, relativeOffset);
+    // Later fill arguments bind variables the slot provides
+    if (index > 0 && tagType === "fill") {
+      const slotName = getSlotName(tag)?.value;
+      const before = bit ? textBefore(bit, offset) : "";
+      return {
+        inWireviewTag: true,
+        tagType,
+        position: "let_binding",
+        slotName,
+        currentValue: before,
+        fullValue: bit?.text.startsWith("let:") ? bit.text.slice(4) : "",
+      };
+    }
 
-    // Check if we're after the opening quote
-    const slotMatch = beforeCursor.match(/\{%\s*render_slot\s+['"]([^'"]*)$/);
-    if (slotMatch) {
+    if (index !== 0) {
       return {
         inWireviewTag: true,
-        tagType: "render_slot",
-        position: "slot_name",
-        currentValue: slotMatch[1],
+        tagType,
+        position: "outside",
       };
     }
 
     return {
       inWireviewTag: true,
-      tagType: "render_slot",
+      tagType,
       position: "slot_name",
+      currentValue: bit ? stripQuotes(textBefore(bit, offset)) : "",
+      fullValue: bit ? stripQuotes(bit.text) : "",
     };
   }
+}
 
-  /**
-   * Find the component context for {% on %} tags inside components.
-   * Looks for the nearest parent component_block or wireview-component attribute.
-   */
-  private findComponentContext(
-    content: string,
-    offset: number
-  ): string | undefined {
-    // Look backwards for component_block opening
-    const before = content.slice(0, offset);
-
-    // Find last component_block opening
-    const blockMatch = before.match(
-      /\{%\s*component_block\s+['"](\w+)['"]/g
-    );
-    if (blockMatch) {
-      const lastBlock = blockMatch[blockMatch.length - 1];
-      const nameMatch = lastBlock.match(/['"](\w+)['"]/);
-      if (nameMatch) {
-        return nameMatch[1];
-      }
+/**
+ * Find the tags opening blocks: wireview block tags, and tags followed
+ * by their end tag, which Django's parser reads up to.
+ */
+function findBlockTags(tags: TemplateTag[]): Set<TemplateTag> {
+  const blocks = new Set<TemplateTag>();
+  const endTagNames = new Set<string>();
+
+  for (let i = tags.length - 1; i >= 0; i--) {
+    const tag = tags[i];
+    if (BLOCK_TAGS.has(tag.name) || endTagNames.has(`end${tag.name}`)) {
+      blocks.add(tag);
     }
+    if (tag.name.startsWith("end")) endTagNames.add(tag.name);
+  }
 
-    // Look for wireview-component attribute in HTML
-    const htmlMatch = before.match(/wireview-component=["'](\w+)["']/g);
-    if (htmlMatch) {
-      const lastAttr = htmlMatch[htmlMatch.length - 1];
-      const nameMatch = lastAttr.match(/["'](\w+)["']/);
-      if (nameMatch) {
-        return nameMatch[1];
-      }
-    }
+  return blocks;
+}
 
-    return undefined;
-  }
+/**
+ * Check if a tag opens or closes a wireview block.
+ */
+function isWireviewBlock(tag: TemplateTag): boolean {
+  return BLOCK_TAGS.has(tag.name.replace(/^end/, ""));
+}
+
+/**
+ * Get the text of a tag bit before an offset.
+ */
+function textBefore(bit: TagBit, offset: number): string {
+  return bit.text.slice(0, offset - bit.startOffset);
+}
+
+/**
+ * Remove surrounding quotes, including an unterminated opening quote.
+ */
+function stripQuotes(text: string): string {
+  const quote = text[0];
+  if (quote !== "'" && quote !== '"') return text;
+
+  return text.length > 1 && text.endsWith(quote) ? text.slice(1, -1) : text.slice(1);
 }
@@ -0,0 +1,182 @@
+/**
+ * Django template tokenizer.
+ *
+ * Splits a template into text, `{{ variable }}`, `{% block %}` and
+ * comment tokens, following Django's Lexer. Contents of `{% verbatim %}`
+ * blocks are kept as text and `{% comment %}` blocks as a single comment.
+ *
+ * Unlike Django, tags may span multiple lines, and a tag that is not yet
+ * closed (while typing) ends at the next tag opening or end of document.
+ */
+
+export type TokenType = "text" | "variable" | "block" | "comment";
+
+export interface TemplateToken {
+  type: TokenType;
+  startOffset: number;
+  endOffset: number;
+  /** Offsets of the content between the delimiters */
+  contentStartOffset: number;
+  contentEndOffset: number;
+  /** False if the closing delimiter is missing */
+  closed: boolean;
+}
+
+const CLOSING_DELIMITERS: Record<string, string> = {
+  "{%": "%}",
+  "{{": "}}",
+  "{#": "#}",
+};
+
+const TOKEN_TYPES: Record<string, TokenType> = {
+  "{%": "block",
+  "{{": "variable",
+  "{#": "comment",
+};
+
+const TAG_START = /\{[%{#]/g;
+const NEXT_TAG_START = /\{[%{#]/g;
+
+/**
+ * Split template content into tokens, starting at `start`, which must
+ * be a token boundary outside any verbatim or comment block.
+ */
+export function tokenize(content: string, start = 0): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+
+  // End tag name while inside {% verbatim %} or {% comment %}
+  let rawBlockEnd: string | null = null;
+  let rawBlockStart = start;
+  let textStart = start;
+
+  TAG_START.lastIndex = start;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_START.exec(content)) !== null) {
+    const tagStart = match.index;
+    const token = readTag(content, tagStart, match[0]);
+
+    if (rawBlockEnd) {
+      if (token.type !== "block" || getTagName(content, token) !== rawBlockEnd) {
+        TAG_START.lastIndex = tagStart + 2;
+        continue;
+      }
+
+      // Close the raw block
+      if (rawBlockEnd === "endcomment") {
+        tokens.push({
+          type: "comment",
+          startOffset: rawBlockStart,
+          endOffset: token.endOffset,
+          contentStartOffset: rawBlockStart,
+          contentEndOffset: token.endOffset,
+          closed: token.closed,
+        });
+      } else {
+        pushText(tokens, textStart, tagStart);
+        tokens.push(token);
+      }
+
+      rawBlockEnd = null;
+      textStart = token.endOffset;
+      TAG_START.lastIndex = token.endOffset;
+      continue;
+    }
+
+    pushText(tokens, textStart, tagStart);
+    textStart = token.endOffset;
+    TAG_START.lastIndex = token.endOffset;
+
+    if (token.type === "block") {
+      const name = getTagName(content, token);
+      if (name === "comment") {
+        rawBlockEnd = "endcomment";
+        rawBlockStart = tagStart;
+        continue;
+      }
+      if (name === "verbatim") {
+        rawBlockEnd = "endverbatim";
+      }
+    }
+
+    tokens.push(token);
+  }
+
+  if (rawBlockEnd === "endcomment") {
+    // Unterminated comment block runs to the end of the document
+    tokens.push({
+      type: "comment",
+      startOffset: rawBlockStart,
+      endOffset: content.length,
+      contentStartOffset: rawBlockStart,
+      contentEndOffset: content.length,
+      closed: false,
+    });
+  } else {
+    pushText(tokens, textStart, content.length);
+  }
+
+  return tokens;
+}
+
+/**
+ * Get the tag name (first word) of a block token.
+ */
+export function getTagName(content: string, token: TemplateToken): string {
+  const inner = content.slice(token.contentStartOffset, token.contentEndOffset);
+  return inner.match(/^\s*(\S+)/)?.[1] ?? "";
+}
+
+/**
+ * Read a tag starting at an opening delimiter.
+ */
+function readTag(content: string, start: number, opener: string): TemplateToken {
+  const closer = CLOSING_DELIMITERS[opener];
+  const contentStart = start + 2;
+  let close = content.indexOf(closer, contentStart);
+
+  // An unclosed tag ends where the next one begins. Comments may
+  // contain other tags, so only a missing `#}` makes them unclosed.
+  NEXT_TAG_START.lastIndex = contentStart;
+  const nextOpen = NEXT_TAG_START.exec(content);
+  const limit = nextOpen ? nextOpen.index : content.length;
+  if (close !== -1 && close > limit && opener !== "{#") {
+    close = -1;
+  }
+
+  if (close === -1) {
+    return {
+      type: TOKEN_TYPES[opener],
+      startOffset: start,
+      endOffset: limit,
+      contentStartOffset: contentStart,
+      contentEndOffset: limit,
+      closed: false,
+    };
+  }
+
+  return {
+    type: TOKEN_TYPES[opener],
+    startOffset: start,
+    endOffset: close + 2,
+    contentStartOffset: contentStart,
+    contentEndOffset: close,
+    closed: true,
+  };
+}
+
+/**
+ * Add a text token if the range is not empty.
+ */
+function pushText(tokens: TemplateToken[], start: number, end: number): void {
+  if (end <= start) return;
+
+  tokens.push({
+    type: "text",
+    startOffset: start,
+    endOffset: end,
+    contentStartOffset: start,
+    contentEndOffset: end,
+    closed: true,
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Classification of literal values in template tag arguments.
+ *
+ * Django resolves tag arguments as template expressions; only quoted strings,
+ * numbers and the True/False/None keywords have a value known before render.
+ */
+
+import { TagBit } from "./template.js";
+
+/**
+ * The contents of a quoted tag argument, with document offsets
+ * excluding the quotes.
+ */
+export interface QuotedValue {
+  value: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export type LiteralValue =
+  | { kind: "str"; value: string }
+  | { kind: "int"; value: number }
+  | { kind: "float"; value: number }
+  | { kind: "bool"; value: boolean }
+  | { kind: "none"; value: null }
+  | { kind: "unknown" };
+
+/**
+ * Classify the raw text of a tag argument value.
+ *
+ * Variables, lookups and filtered expressions (`user.name`, `"a"|upper`)
+ * are classified as unknown.
+ */
+export function classifyValue(text: string): LiteralValue {
+  const quoted = text.match(/^(['"])(.*)\1$/s);
+  if (quoted && !quoted[2].includes(quoted[1])) {
+    return { kind: "str", value: quoted[2] };
+  }
+
+  if (/^[-+]?\d+$/.test(text)) {
+    return { kind: "int", value: parseInt(text, 10) };
+  }
+
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+(\.\d*)?[eE][-+]?\d+)$/.test(text)) {
+    return { kind: "float", value: parseFloat(text) };
+  }
+
+  if (text === "True") return { kind: "bool", value: true };
+  if (text === "False") return { kind: "bool", value: false };
+  if (text === "None") return { kind: "none", value: null };
+
+  return { kind: "unknown" };
+}
+
+/**
+ * Strip matching quotes from a tag bit, returning the inner value and its offsets.
+ */
+export function unquote(bit: TagBit): QuotedValue | null {
+  const match = bit.text.match(/^(['"])(.*)\1$/s);
+  if (!match) return null;
+
+  return {
+    value: match[2],
+    startOffset: bit.startOffset + 1,
+    endOffset: bit.endOffset - 1,
+  };
+}
@@ -4,7 +4,13 @@
  * Provides language features for Django templates using wireview components:
  * - Completion for component names, attributes, and event handlers
  * - Go to Definition for components and methods
+ * - Find All References for components and handlers across templates
+ * - Rename for handlers and slots across templates and Python
+ * - Workspace symbol search for components and handlers
+ * - Document outline of wireview tags
  * - Hover information
+ * - Diagnostics for wireview tags
+ * - Quick fixes for diagnostics and template refactorings
  */
 
 import {
@@ -18,27 +24,74 @@ import {
   CompletionItemKind,
   Definition,
   Hover,
+  Location,
   MarkupKind,
+  CodeAction,
+  CodeActionKind,
+  TextEdit,
+  WorkspaceEdit,
+  Range,
+  FileChangeType,
+  SymbolInformation,
+  DocumentSymbol,
 } from "vscode-languageserver/node";
 import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
 
-import { MetadataManager, WireviewMetadata } from "./metadata/manager.js";
+import {
+  MetadataManager,
+  WireviewMetadata,
+  ComponentMetadata,
+} from "./metadata/manager.js";
 import { TemplateParser, CursorContext } from "./parser/template.js";
+import { ParseCache } from "./parser/cache.js";
 import { getCompletions } from "./handlers/completion.js";
 import { getDefinition } from "./handlers/definition.js";
 import { getHover } from "./handlers/hover.js";
+import { getReferences } from "./handlers/references.js";
+import { prepareRename, getRenameEdit } from "./handlers/rename.js";
+import { getWorkspaceSymbols } from "./handlers/workspaceSymbols.js";
+import { getDocumentSymbols } from "./handlers/documentSymbols.js";
+import { getDiagnostics } from "./handlers/diagnostics.js";
+import {
+  getCodeActions,
+  CodeActionOptions,
+  NORMALIZE_REFERENCES_KIND,
+} from "./handlers/codeActions.js";
+import { getNormalizeEdits, isReferenceStyle } from "./handlers/normalize.js";
+import { TemplateResolver } from "./workspace/templates.js";
+import { TemplateIndex } from "./workspace/index.js";
+import { isValidGlob } from "./workspace/files.js";
 
 // Create connection
 const connection = createConnection(ProposedFeatures.all);
 
+// Template parser
+const parser = new TemplateParser();
+
+// Parsed templates of open documents, updated from incremental changes
+const parseCache = new ParseCache(parser);
+
 // Document manager
-const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+const documents: TextDocuments<TextDocument> = new TextDocuments({
+  create: TextDocument.create,
+  update: (document, changes, version) => {
+    parseCache.recordChanges(document, changes, version);
+    return TextDocument.update(document, changes, version);
+  },
+});
 
 // Metadata manager (initialized on connection)
 let metadataManager: MetadataManager;
 
-// Template parser
-const parser = new TemplateParser();
+// Root of the first workspace folder
+let workspaceRoot = "";
+
+// Maps template files to the components that render them
+let templateResolver: TemplateResolver;
+
+// Parsed templates of the whole workspace
+let templateIndex: TemplateIndex;
 
 // Settings interface
 interface WireviewSettings {
@@ -46,6 +99,8 @@ interface WireviewSettings {
   djangoSettingsModule: string;
   autoRefreshMetadata: boolean;
   metadataPath: string;
+  templateSearchPaths: string[];
+  templateGlobs: string[];
 }
 
 // Default settings
@@ -54,16 +109,30 @@ const defaultSettings: WireviewSettings = {
   djangoSettingsModule: "",
   autoRefreshMetadata: true,
   metadataPath: ".wireview/metadata.json",
+  templateSearchPaths: [],
+  templateGlobs: ["**/*.html"],
 };
 
 let globalSettings: WireviewSettings = defaultSettings;
 
+// Client features reported in initializationOptions
+let codeActionOptions: CodeActionOptions = { snippetCommand: false };
+
 connection.onInitialize((params: InitializeParams): InitializeResult => {
-  const workspaceFolders = params.workspaceFolders;
-  const workspaceRoot = workspaceFolders?.[0]?.uri.replace("file://", "") || "";
+  const workspaceFolder = params.workspaceFolders?.[0];
+  workspaceRoot = workspaceFolder ? URI.parse(workspaceFolder.uri).fsPath : "";
 
   // Initialize metadata manager
   metadataManager = new MetadataManager(workspaceRoot, globalSettings);
+  templateResolver = new TemplateResolver(workspaceRoot);
+  templateIndex = new TemplateIndex(parser, parseCache, documents, templateResolver);
+
+  // Queries wait for the index built once metadata is loaded
+  templateIndex.expectRebuild();
+
+  codeActionOptions = {
+    snippetCommand: params.initializationOptions?.snippetCommand === true,
+  };
 
   return {
     capabilities: {
@@ -73,7 +142,20 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
         resolveProvider: true,
       },
       definitionProvider: true,
+      referencesProvider: true,
+      renameProvider: {
+        prepareProvider: true,
+      },
+      workspaceSymbolProvider: true,
+      documentSymbolProvider: true,
       hoverProvider: true,
+      codeActionProvider: {
+        codeActionKinds: [
+          CodeActionKind.QuickFix,
+          CodeActionKind.RefactorRewrite,
+          NORMALIZE_REFERENCES_KIND,
+        ],
+      },
     },
   };
 });
@@ -83,13 +165,17 @@ connection.onInitialized(async () => {
   try {
     await metadataManager.refresh();
     connection.console.log("wireview: Metadata loaded successfully");
+    await updateTemplateResolver();
+    validateAllDocuments();
   } catch (error) {
     connection.console.error(`wireview: Failed to load metadata - ${error}`);
   }
+
+  rebuildTemplateIndex();
 });
 
 // Handle configuration changes
-connection.onDidChangeConfiguration((change) => {
+connection.onDidChangeConfiguration(async (change) => {
   globalSettings = {
     ...defaultSettings,
     ...(change.settings?.wireview || {}),
@@ -97,18 +183,127 @@ connection.onDidChangeConfiguration((change) => {
 
   if (metadataManager) {
     metadataManager.updateSettings(globalSettings);
+    templateIndex.expectRebuild();
+    await updateTemplateResolver();
+    validateAllDocuments();
+    rebuildTemplateIndex();
   }
 });
 
 // Handle metadata refresh request
 connection.onRequest("wireview/refreshMetadata", async () => {
   if (metadataManager) {
-    await metadataManager.refresh();
+    templateIndex.expectRebuild();
+    try {
+      await metadataManager.refresh();
+    } finally {
+      // Settle the pending index even if metadata failed to load
+      await updateTemplateResolver();
+      rebuildTemplateIndex();
+    }
+    validateAllDocuments();
     return { success: true };
   }
   return { success: false, error: "Metadata manager not initialized" };
 });
 
+// Rewrite component references in one file, or all workspace templates, to one style
+connection.onRequest(
+  "wireview/normalizeComponentReferences",
+  async (params: { style: string; uri?: string }) => {
+    const { style } = params;
+    if (style === "simple") {
+      return {
+        success: false,
+        error: "Can't normalize to simple names: metadata doesn't tell when apps share a component name",
+      };
+    }
+    if (!isReferenceStyle(style)) {
+      return { success: false, error: `Unknown reference style '${style}'` };
+    }
+
+    const metadata = metadataManager?.getMetadata();
+    if (!metadata) {
+      return { success: false, error: "Metadata not loaded" };
+    }
+
+    await templateIndex.whenReady();
+    const sources = params.uri
+      ? [templateIndex.get(params.uri)]
+      : [...templateIndex.templates()];
+
+    const changes: Record<string, TextEdit[]> = {};
+    let changed = 0;
+
+    for (const source of sources) {
+      if (!source) continue;
+
+      const { document, tree } = source;
+      const edits = getNormalizeEdits(document, tree.tags, metadata, style);
+      if (edits.length > 0) {
+        changes[document.uri] = edits;
+        changed += edits.length;
+      }
+    }
+
+    if (changed > 0) {
+      const applied = await connection.workspace.applyEdit({ changes });
+      if (!applied.applied) {
+        return { success: false, error: applied.failureReason || "Edit was not applied" };
+      }
+    }
+
+    return { success: true, changed, files: Object.keys(changes).length };
+  }
+);
+
+// Re-resolve template files after metadata or settings change
+async function updateTemplateResolver(): Promise<void> {
+  await templateResolver.update(
+    metadataManager.getMetadata(),
+    globalSettings.templateSearchPaths
+  );
+}
+
+// Re-index workspace templates, reporting progress to the client.
+// Errors are logged, never rejected: callers don't await the rebuild.
+async function rebuildTemplateIndex(): Promise<void> {
+  templateIndex.expectRebuild();
+
+  const globs = globalSettings.templateGlobs.filter((glob) => {
+    if (isValidGlob(glob)) return true;
+    connection.console.error(`wireview: Ignoring invalid template glob '${glob}'`);
+    return false;
+  });
+
+  // Index without progress if the client can't show it
+  const progress = await connection.window
+    .createWorkDoneProgress()
+    .catch(() => undefined);
+  progress?.begin("wireview: Indexing templates", 0);
+
+  try {
+    await templateIndex.rebuild(
+      workspaceRoot,
+      globs,
+      metadataManager.getMetadata(),
+      (parsed, total) => {
+        progress?.report(Math.round((parsed / total) * 100), `${parsed}/${total}`);
+      }
+    );
+  } catch (error) {
+    connection.console.error(`wireview: Failed to index templates - ${error}`);
+  } finally {
+    progress?.done();
+  }
+}
+
+// Find the component whose template a document is
+function getOwner(document: TextDocument): ComponentMetadata | undefined {
+  if (!templateResolver || !document.uri.startsWith("file:")) return undefined;
+  return templateResolver.findOwner(URI.parse(document.uri).fsPath);
+}
+
 // Completion handler
 connection.onCompletion((params): CompletionItem[] => {
   const document = documents.get(params.textDocument.uri);
@@ -117,9 +312,9 @@ connection.onCompletion((params): CompletionItem[] => {
   const metadata = metadataManager?.getMetadata();
   if (!metadata) return [];
 
-  const text = document.getText();
+  const tree = parseCache.get(document);
   const offset = document.offsetAt(params.position);
-  const context = parser.getCursorContext(text, offset);
+  const context = parser.getCursorContext(tree, offset, getOwner(document)?.fqn);
 
   return getCompletions(context, metadata);
 });
@@ -138,13 +333,81 @@ connection.onDefinition((params): Definition | null => {
   const metadata = metadataManager?.getMetadata();
   if (!metadata) return null;
 
-  const text = document.getText();
+  const tree = parseCache.get(document);
   const offset = document.offsetAt(params.position);
-  const context = parser.getCursorContext(text, offset);
+  const context = parser.getCursorContext(tree, offset, getOwner(document)?.fqn);
 
   return getDefinition(context, metadata);
 });
 
+// References handler
+connection.onReferences(async (params): Promise<Location[]> => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) return [];
+
+  const metadata = metadataManager?.getMetadata();
+  if (!metadata) return [];
+
+  const tree = parseCache.get(document);
+  const offset = document.offsetAt(params.position);
+  const context = parser.getCursorContext(tree, offset, getOwner(document)?.fqn);
+
+  await templateIndex.whenReady();
+  return getReferences(
+    context,
+    metadata,
+    templateIndex,
+    params.context.includeDeclaration
+  );
+});
+
+// Prepare rename handler
+connection.onPrepareRename((params): { range: Range; placeholder: string } | null => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) return null;
+
+  const metadata = metadataManager?.getMetadata();
+  if (!metadata) return null;
+
+  const tree = parseCache.get(document);
+  const offset = document.offsetAt(params.position);
+  const context = parser.getCursorContext(tree, offset, getOwner(document)?.fqn);
+
+  return prepareRename(document, tree, context, metadata, offset);
+});
+
+// Rename handler
+connection.onRenameRequest(async (params): Promise<WorkspaceEdit | null> => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) return null;
+
+  const metadata = metadataManager?.getMetadata();
+  if (!metadata) return null;
+
+  const tree = parseCache.get(document);
+  const offset = document.offsetAt(params.position);
+  const context = parser.getCursorContext(tree, offset, getOwner(document)?.fqn);
+
+  await templateIndex.whenReady();
+  return getRenameEdit(context, metadata, templateIndex, params.newName);
+});
+
+// Workspace symbol handler
+connection.onWorkspaceSymbol((params): SymbolInformation[] => {
+  const metadata = metadataManager?.getMetadata();
+  if (!metadata) return [];
+
+  return getWorkspaceSymbols(metadata, params.query);
+});
+
+// Document symbol handler
+connection.onDocumentSymbol((params): DocumentSymbol[] => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) return [];
+
+  return getDocumentSymbols(document, parseCache.get(document));
+});
+
 // Hover handler
 connection.onHover((params): Hover | null => {
   const document = documents.get(params.textDocument.uri);
@@ -153,16 +416,77 @@ connection.onHover((params): Hover | null => {
   const metadata = metadataManager?.getMetadata();
   if (!metadata) return null;
 
-  const text = document.getText();
+  const tree = parseCache.get(document);
   const offset = document.offsetAt(params.position);
-  const context = parser.getCursorContext(text, offset);
+  const context = parser.getCursorContext(tree, offset, getOwner(document)?.fqn);
 
   return getHover(context, metadata);
 });
 
+// Code action handler
+connection.onCodeAction((params): CodeAction[] => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) return [];
+
+  const metadata = metadataManager?.getMetadata();
+  if (!metadata) return [];
+
+  const tree = parseCache.get(document);
+
+  return getCodeActions(document, tree, metadata, params, codeActionOptions);
+});
+
+// Publish diagnostics for a document
+function validateDocument(document: TextDocument): void {
+  const metadata = metadataManager?.getMetadata();
+  if (!metadata) return;
+
+  const tree = parseCache.get(document);
+  const diagnostics = getDiagnostics(document, tree, metadata, getOwner(document));
+
+  connection.sendDiagnostics({ uri: document.uri, diagnostics });
+}
+
+// Re-validate every open document (e.g. after metadata refresh)
+function validateAllDocuments(): void {
+  for (const document of documents.all()) {
+    validateDocument(document);
+  }
+}
+
 // Watch for document changes
 documents.onDidChangeContent((change) => {
-  // Could add validation/diagnostics here
+  validateDocument(change.document);
+});
+
+// Keep the template index in sync with files changed outside the editor
+connection.onDidChangeWatchedFiles((params) => {
+  if (!templateIndex) return;
+
+  let addedOrRemoved = false;
+
+  for (const change of params.changes) {
+    if (!change.uri.endsWith(".html")) continue;
+
+    if (change.type === FileChangeType.Deleted) {
+      templateIndex.remove(change.uri);
+    } else {
+      templateIndex.update(change.uri);
+    }
+    if (change.type !== FileChangeType.Changed) addedOrRemoved = true;
+  }
+
+  // Created or deleted files can change which component owns a template
+  if (addedOrRemoved) {
+    templateResolver.invalidate();
+    validateAllDocuments();
+  }
+});
+
+// Clear diagnostics when a document is closed
+documents.onDidClose((event) => {
+  parseCache.delete(event.document.uri);
+  connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
 });
 
 // Listen for document events
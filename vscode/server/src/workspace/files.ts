@@ -0,0 +1,179 @@
+/**
+ * Workspace file discovery.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// Directories that never contain project templates
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  "__pycache__",
+  "venv",
+  ".venv",
+  "env",
+  "site-packages",
+]);
+
+/**
+ * Find template files under a directory whose paths, relative to the
+ * directory, match any of the glob patterns. Defaults to all `.html` files.
+ *
+ * Directories are read asynchronously, so other work can run during
+ * the walk of a large workspace.
+ */
+export async function findTemplateFiles(
+  root: string,
+  patterns: string[] = ["**/*.html"]
+): Promise<string[]> {
+  const files: string[] = [];
+  const matchers = patterns.map(globToRegExp);
+  await collectTemplateFiles(root, root, matchers, files);
+  return files;
+}
+
+/**
+ * Recursively add files in a directory matching any pattern to `files`.
+ */
+async function collectTemplateFiles(
+  root: string,
+  dir: string,
+  matchers: RegExp[],
+  files: string[]
+): Promise<void> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    // Ignore permission errors
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        await collectTemplateFiles(root, fullPath, matchers, files);
+      }
+    } else if (entry.isFile()) {
+      const relativePath = path.relative(root, fullPath).split(path.sep).join("/");
+      if (matchers.some((matcher) => matcher.test(relativePath))) {
+        files.push(fullPath);
+      }
+    }
+  }
+}
+
+/**
+ * Check if a `/`-separated relative path is inside a hidden or ignored
+ * directory, which template discovery skips.
+ */
+export function isIgnoredPath(relativePath: string): boolean {
+  const segments = relativePath.split("/");
+  return segments.some(
+    (segment) => segment.startsWith(".") || IGNORED_DIRECTORIES.has(segment)
+  );
+}
+
+/**
+ * Check if a glob pattern can be converted by `globToRegExp`: every `{`
+ * alternative group must be closed.
+ */
+export function isValidGlob(glob: string): boolean {
+  let braceDepth = 0;
+
+  for (const char of glob) {
+    if (char === "{") {
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+    }
+  }
+
+  return braceDepth === 0;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching `/`-separated
+ * relative paths. Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ * Throws for patterns rejected by `isValidGlob`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  if (!isValidGlob(glob)) {
+    throw new Error(`Invalid glob pattern '${glob}': unclosed '{'`);
+  }
+
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` matches any number of directories, including none
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      source += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find all `templates` directories under a directory, as used by
+ * Django's app directories template loader.
+ */
+export async function findTemplateDirectories(root: string): Promise<string[]> {
+  const directories: string[] = [];
+  await collectTemplateDirectories(root, directories);
+  return directories;
+}
+
+/**
+ * Recursively add `templates` directories in a directory to `directories`.
+ */
+async function collectTemplateDirectories(
+  dir: string,
+  directories: string[]
+): Promise<void> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    // Ignore permission errors
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || !entry.isDirectory()) continue;
+    if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.name === "templates") {
+      directories.push(fullPath);
+    } else {
+      await collectTemplateDirectories(fullPath, directories);
+    }
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Workspace template index.
+ *
+ * Keeps parsed copies of every template in the workspace, so features
+ * like references and rename can search templates that are not open.
+ * Templates are discovered from glob patterns relative to the workspace
+ * root, plus Django's template dirs from metadata, and parsed in the
+ * background. Open documents always take precedence over the indexed
+ * copy on disk.
+ */
+
+import { TextDocuments } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  TemplateParser,
+  TagTree,
+  TemplateTag,
+  getComponentName,
+} from "../parser/template.js";
+import { QuotedValue } from "../parser/values.js";
+import { ParseCache } from "../parser/cache.js";
+import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { findComponent } from "../metadata/lookup.js";
+import { TemplateResolver } from "./templates.js";
+import { findTemplateFiles, globToRegExp, isIgnoredPath } from "./files.js";
+
+/**
+ * A parsed template, open or indexed from disk.
+ */
+export interface TemplateSource {
+  document: TextDocument;
+  tree: TagTree;
+  /** Component whose template this is, if any */
+  owner?: ComponentMetadata;
+}
+
+/**
+ * A {% component %} or {% component_block %} tag referencing a component.
+ */
+export interface ComponentUsage {
+  source: TemplateSource;
+  tag: TemplateTag;
+  /** The component name as written */
+  name: QuotedValue;
+}
+
+/** Reports how many of the discovered templates have been parsed */
+export type IndexProgress = (parsed: number, total: number) => void;
+
+// Files indexed in Django's template dirs
+const HTML_FILE = globToRegExp("**/*.html");
+
+// Templates parsed between yields to the event loop
+const BATCH_SIZE = 50;
+
+export class TemplateIndex {
+  private parser: TemplateParser;
+  private parseCache: ParseCache;
+  private documents: TextDocuments<TextDocument>;
+  private resolver: TemplateResolver;
+  private workspaceRoot = "";
+  private patterns: RegExp[] = [];
+  private templateDirs: string[] = [];
+  private entries = new Map<string, { document: TextDocument; tree: TagTree }>();
+  private building: Promise<void> = Promise.resolve();
+  private finishPending: (() => void) | null = null;
+  private generation = 0;
+
+  constructor(
+    parser: TemplateParser,
+    parseCache: ParseCache,
+    documents: TextDocuments<TextDocument>,
+    resolver: TemplateResolver
+  ) {
+    this.parser = parser;
+    this.parseCache = parseCache;
+    this.documents = documents;
+    this.resolver = resolver;
+  }
+
+  /**
+   * Mark the index as about to be rebuilt, e.g. while metadata loads,
+   * so queries wait for the next `rebuild` instead of searching a
+   * missing or outdated index.
+   */
+  expectRebuild(): void {
+    if (this.finishPending) return;
+
+    this.building = new Promise((resolve) => {
+      this.finishPending = resolve;
+    });
+  }
+
+  /**
+   * Discover and parse all templates again, replacing the index.
+   *
+   * Globs are relative to the workspace root and must pass `isValidGlob`.
+   * Every `.html` file in the Django template dirs from metadata is
+   * indexed too. A build started while another is running supersedes it.
+   */
+  rebuild(
+    workspaceRoot: string,
+    globs: string[],
+    metadata: WireviewMetadata | null,
+    onProgress?: IndexProgress
+  ): Promise<void> {
+    this.workspaceRoot = workspaceRoot;
+    this.templateDirs = metadata?.template_dirs ?? [];
+
+    const generation = ++this.generation;
+    const build = this.build(globs, generation, onProgress);
+
+    // Queries wait for the build to settle, even if it fails
+    this.building = build.catch(() => undefined);
+    this.finishPending?.();
+    this.finishPending = null;
+
+    return build;
+  }
+
+  /**
+   * Wait until no build is pending or running.
+   */
+  async whenReady(): Promise<void> {
+    let building: Promise<void>;
+    do {
+      building = this.building;
+      await building;
+    } while (building !== this.building);
+  }
+
+  /**
+   * Re-read a template after it changed on disk. Files that don't match
+   * the configured globs or template dirs are ignored.
+   */
+  update(uri: string): void {
+    const filePath = URI.parse(uri).fsPath;
+    if (!this.includes(filePath)) return;
+
+    const entry = this.read(uri);
+    if (entry) {
+      this.entries.set(uri, entry);
+    } else {
+      this.entries.delete(uri);
+    }
+  }
+
+  /**
+   * Drop a template deleted from disk.
+   */
+  remove(uri: string): void {
+    this.entries.delete(uri);
+  }
+
+  /**
+   * Get a template by URI: the open document, the indexed copy, or
+   * else the file read from disk.
+   */
+  get(uri: string): TemplateSource | undefined {
+    const open = this.documents.get(uri);
+    if (open) {
+      return this.createSource(open, this.parseCache.get(open));
+    }
+
+    const entry = this.entries.get(uri) ?? this.read(uri);
+    return entry ? this.createSource(entry.document, entry.tree) : undefined;
+  }
+
+  /**
+   * Iterate all open documents, then every indexed template that isn't open.
+   */
+  *templates(): Generator<TemplateSource> {
+    for (const document of this.documents.all()) {
+      yield this.createSource(document, this.parseCache.get(document));
+    }
+
+    for (const [uri, entry] of this.entries) {
+      if (this.documents.get(uri)) continue;
+      yield this.createSource(entry.document, entry.tree);
+    }
+  }
+
+  /**
+   * Find every tag referencing a component, whether written as simple
+   * name, FQN or app prefix.
+   */
+  findComponentUsages(
+    metadata: WireviewMetadata,
+    component: ComponentMetadata
+  ): ComponentUsage[] {
+    const usages: ComponentUsage[] = [];
+
+    for (const source of this.templates()) {
+      for (const tag of source.tree.tags) {
+        if (tag.name !== "component" && tag.name !== "component_block") continue;
+
+        const name = getComponentName(tag);
+        if (!name || findComponent(metadata, name.value)?.fqn !== component.fqn) {
+          continue;
+        }
+
+        usages.push({ source, tag, name });
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Get the {% on %} tags of a template.
+   */
+  findOnTags(uri: string): TemplateTag[] {
+    const source = this.get(uri);
+    return source ? source.tree.tags.filter((tag) => tag.name === "on") : [];
+  }
+
+  /**
+   * Discover templates and parse them in batches, yielding between batches
+   * so requests are served while the index builds.
+   */
+  private async build(
+    globs: string[],
+    generation: number,
+    onProgress?: IndexProgress
+  ): Promise<void> {
+    this.patterns = globs.map(globToRegExp);
+
+    const files = new Set(
+      this.workspaceRoot ? await findTemplateFiles(this.workspaceRoot, globs) : []
+    );
+    for (const dir of this.templateDirs) {
+      for (const file of await findTemplateFiles(dir)) {
+        files.add(file);
+      }
+    }
+    if (generation !== this.generation) return;
+
+    const entries = new Map<string, { document: TextDocument; tree: TagTree }>();
+    let parsed = 0;
+
+    for (const file of files) {
+      const uri = URI.file(file).toString();
+      const entry = this.read(uri);
+      if (entry) entries.set(uri, entry);
+
+      parsed++;
+      if (parsed % BATCH_SIZE === 0) {
+        onProgress?.(parsed, files.size);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        // A newer build replaces this one
+        if (generation !== this.generation) return;
+      }
+    }
+
+    this.entries = entries;
+    onProgress?.(parsed, files.size);
+  }
+
+  /**
+   * Check if a file is covered by the globs or template dirs.
+   */
+  private includes(filePath: string): boolean {
+    const workspacePath = this.workspaceRoot
+      ? getRelativePath(this.workspaceRoot, filePath)
+      : null;
+    if (workspacePath && this.patterns.some((pattern) => pattern.test(workspacePath))) {
+      return true;
+    }
+
+    return this.templateDirs.some((dir) => {
+      const relativePath = getRelativePath(dir, filePath);
+      return relativePath !== null && HTML_FILE.test(relativePath);
+    });
+  }
+
+  /**
+   * Read and parse a template from disk.
+   */
+  private read(uri: string): { document: TextDocument; tree: TagTree } | undefined {
+    try {
+      const content = fs.readFileSync(URI.parse(uri).fsPath, "utf-8");
+      const document = TextDocument.create(uri, "django-html", 0, content);
+      return { document, tree: this.parser.parse(content) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private createSource(document: TextDocument, tree: TagTree): TemplateSource {
+    const owner = document.uri.startsWith("file:")
+      ? this.resolver.findOwner(URI.parse(document.uri).fsPath)
+      : undefined;
+    return { document, tree, owner };
+  }
+}
+
+/**
+ * Get the `/`-separated path of a file relative to a directory, or null
+ * if the file is outside it or in a directory discovery skips.
+ */
+function getRelativePath(dir: string, filePath: string): string | null {
+  const relativePath = path.relative(dir, filePath);
+  if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) return null;
+
+  const normalized = relativePath.split(path.sep).join("/");
+  return isIgnoredPath(normalized) ? null : normalized;
+}
@@ -0,0 +1,103 @@
+/**
+ * Template name resolution.
+ *
+ * Maps Django template names to workspace files, so the component that
+ * renders a template (its `template_name`) can be found from the file.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { WireviewMetadata, ComponentMetadata } from "../metadata/types.js";
+import { findTemplateDirectories } from "./files.js";
+
+export class TemplateResolver {
+  private workspaceRoot: string;
+  private metadata: WireviewMetadata | null = null;
+  private templateDirs: string[] = [];
+  private owners: Map<string, ComponentMetadata> | null = null;
+  private generation = 0;
+
+  constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * Update metadata and configured search paths, dropping cached lookups.
+   *
+   * Search paths (relative to the workspace root) are tried before the
+   * Django template dirs from metadata. Without either, every `templates`
+   * directory in the workspace is searched. An update started while
+   * another is discovering directories supersedes it.
+   */
+  async update(
+    metadata: WireviewMetadata | null,
+    searchPaths: string[]
+  ): Promise<void> {
+    const generation = ++this.generation;
+    const dirs = [
+      ...searchPaths.map((dir) => path.resolve(this.workspaceRoot, dir)),
+      ...(metadata?.template_dirs ?? []),
+    ];
+    const templateDirs =
+      dirs.length > 0
+        ? [...new Set(dirs)]
+        : await findTemplateDirectories(this.workspaceRoot);
+    if (generation !== this.generation) return;
+
+    this.metadata = metadata;
+    this.templateDirs = templateDirs;
+    this.owners = null;
+  }
+
+  /**
+   * Drop cached lookups after template files were created or deleted.
+   */
+  invalidate(): void {
+    this.owners = null;
+  }
+
+  /**
+   * Resolve a template name to a file, trying each directory in order.
+   */
+  resolve(templateName: string): string | undefined {
+    for (const dir of this.templateDirs) {
+      const file = path.join(dir, templateName);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the component whose template is the given file.
+   */
+  findOwner(filePath: string): ComponentMetadata | undefined {
+    if (!this.owners) {
+      this.owners = this.buildOwners();
+    }
+
+    return this.owners.get(path.normalize(filePath));
+  }
+
+  /**
+   * Map each component's resolved template file to the component.
+   */
+  private buildOwners(): Map<string, ComponentMetadata> {
+    const owners = new Map<string, ComponentMetadata>();
+    if (!this.metadata) return owners;
+
+    for (const component of Object.values(this.metadata.components)) {
+      if (!component.template_name) continue;
+
+      const file = this.resolve(component.template_name);
+      if (file && !owners.has(file)) {
+        owners.set(file, component);
+      }
+    }
+
+    return owners;
+  }
+}
@@ -7,6 +7,7 @@
  * - Attribute completion (Pydantic fields)
  * - Event handler completion
  * - Hover documentation
+ * - Diagnostics and quick fixes
  */
 
 import * as path from "path";
@@ -17,6 +18,9 @@ import {
   commands,
   StatusBarAlignment,
   StatusBarItem,
+  SnippetString,
+  Uri,
+  Position,
 } from "vscode";
 import {
   LanguageClient,
@@ -62,8 +66,17 @@ export async function activate(context: ExtensionContext): Promise<void> {
       { scheme: "file", language: "html", pattern: "**/*.html" },
     ],
     synchronize: {
-      // Watch for Python file changes to refresh metadata
-      fileEvents: workspace.createFileSystemWatcher("**/*.py"),
+      // Send wireview settings to the server
+      configurationSection: "wireview",
+      // Watch for Python file changes to refresh metadata, and templates to keep the index current
+      fileEvents: [
+        workspace.createFileSystemWatcher("**/*.py"),
+        workspace.createFileSystemWatcher("**/*.html"),
+      ],
+    },
+    initializationOptions: {
+      // Quick fixes can insert snippets through wireview.insertSnippet
+      snippetCommand: true,
     },
   };
 
@@ -82,7 +95,63 @@ export async function activate(context: ExtensionContext): Promise<void> {
         await client.sendRequest("wireview/refreshMetadata");
         window.showInformationMessage("wireview: Metadata refreshed");
       }
-    })
+    }),
+    commands.registerCommand("wireview.normalizeComponentReferences", async () => {
+      if (!client) return;
+
+      const style = await window.showQuickPick(
+        [
+          { label: "Fully qualified name", description: "myapp.live.Counter", value: "fqn" },
+          { label: "App prefix", description: "myapp:Counter", value: "app_key" },
+        ],
+        { placeHolder: "Component reference style" }
+      );
+      if (!style) return;
+
+      const activeUri = window.activeTextEditor?.document.uri.toString();
+      const scope = await window.showQuickPick(
+        [
+          ...(activeUri ? [{ label: "Current file", uri: activeUri }] : []),
+          { label: "All workspace templates", uri: undefined },
+        ],
+        { placeHolder: "Where to normalize component references" }
+      );
+      if (!scope) return;
+
+      const result = await client.sendRequest<{
+        success: boolean;
+        error?: string;
+        changed?: number;
+        files?: number;
+      }>("wireview/normalizeComponentReferences", {
+        style: style.value,
+        uri: scope.uri,
+      });
+
+      if (!result.success) {
+        window.showErrorMessage(`wireview: ${result.error}`);
+        return;
+      }
+
+      window.showInformationMessage(
+        `wireview: Updated ${result.changed} reference(s) in ${result.files} file(s)`
+      );
+    }),
+    commands.registerCommand(
+      "wireview.insertSnippet",
+      async (
+        uri: string,
+        position: { line: number; character: number },
+        snippet: string
+      ) => {
+        const document = await workspace.openTextDocument(Uri.parse(uri));
+        const editor = await window.showTextDocument(document);
+        await editor.insertSnippet(
+          new SnippetString(snippet),
+          new Position(position.line, position.character)
+        );
+      }
+    )
   );
 
   // Start the client